@@ -0,0 +1,127 @@
+import {
+  type Actor,
+  type Context,
+  type Image,
+  Link,
+  type Recipient,
+  isActor,
+} from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { type IRemoteActor, RemoteActor } from "./models.js";
+
+const logger = getLogger("wendy");
+
+function imageUrl(image: Image | null): string | undefined {
+  const url = image?.url instanceof Link ? image.url.href : image?.url;
+  return url?.href;
+}
+
+// Stores or refreshes the cached profile of a remote actor
+export async function saveRemoteActor(
+  actor: Actor,
+): Promise<IRemoteActor | null> {
+  if (!actor.id) return null;
+  const uri = actor.id.href;
+  const preferredUsername = actor.preferredUsername?.toString();
+  const url = actor.url instanceof Link ? actor.url.href : actor.url;
+  const profile = {
+    name: actor.name?.toString() || undefined,
+    preferredUsername,
+    handle: preferredUsername
+      ? `@${preferredUsername}@${actor.id.host}`
+      : undefined,
+    url: url?.href,
+    avatarUrl: imageUrl(await actor.getIcon({ suppressError: true })),
+    headerUrl: imageUrl(await actor.getImage({ suppressError: true })),
+    inbox: actor.inboxId?.href,
+    sharedInbox: actor.endpoints?.sharedInbox?.href,
+  };
+
+  const now = new Date();
+  const existing = await RemoteActor.findOne({ uri }).exec();
+  const changed =
+    !existing ||
+    (Object.keys(profile) as (keyof typeof profile)[]).some(
+      (key) => existing[key] !== profile[key],
+    );
+  // Clear fields the actor no longer has instead of keeping stale values
+  const unset = Object.fromEntries(
+    Object.entries(profile)
+      .filter(([, value]) => value === undefined)
+      .map(([key]) => [key, ""]),
+  );
+  const saved = await RemoteActor.findOneAndUpdate(
+    { uri },
+    {
+      $set: {
+        uri,
+        ...profile,
+        fetchedAt: now,
+        ...(changed && { updatedAt: now }),
+      },
+      $unset: unset,
+    },
+    { upsert: true, new: true },
+  ).exec();
+  if (changed) logger.info(`Cached profile of remote actor ${uri}`);
+  return saved;
+}
+
+// Looks up cached remote actors by URL
+export async function getRemoteActors(
+  uris: string[],
+): Promise<Map<string, IRemoteActor>> {
+  if (uris.length === 0) return new Map();
+  const actors = await RemoteActor.find({ uri: { $in: uris } }).exec();
+  return new Map(actors.map((actor) => [actor.uri, actor]));
+}
+
+// Resolves what was typed into the follow form into an actor.  Accepts
+// fediverse handles (with or without the leading @) as well as actor and
+// profile URLs; handles are resolved through WebFinger.
+export async function resolveActor(
+  ctx: Context<unknown>,
+  query: string,
+): Promise<Actor | null> {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  const target =
+    /^https?:\/\//i.test(trimmed) || trimmed.startsWith("@")
+      ? trimmed
+      : `@${trimmed}`;
+  const object = await ctx.lookupObject(target);
+  return isActor(object) ? object : null;
+}
+
+// Builds a delivery target from stored inbox URLs.  Including the shared inbox
+// lets Fedify deliver once per server when `preferSharedInbox` is set.
+export function toRecipient(
+  uri: string,
+  inbox?: string,
+  sharedInbox?: string,
+): Recipient | null {
+  if (!inbox) return null;
+  return {
+    id: new URL(uri),
+    inboxId: new URL(inbox),
+    endpoints: sharedInbox ? { sharedInbox: new URL(sharedInbox) } : null,
+  };
+}
+
+// Returns the delivery target for a remote actor, dereferencing the actor if
+// we don't know its inbox yet
+export async function getRecipient(
+  ctx: Context<unknown>,
+  uri: string,
+): Promise<Recipient | null> {
+  let actor: IRemoteActor | null = await RemoteActor.findOne({ uri }).exec();
+  if (!actor?.inbox) {
+    try {
+      const object = await ctx.lookupObject(uri);
+      if (isActor(object)) actor = await saveRemoteActor(object);
+    } catch (error) {
+      logger.warn(`Failed to fetch actor ${uri}: ${error}`);
+    }
+  }
+  return toRecipient(uri, actor?.inbox, actor?.sharedInbox);
+}
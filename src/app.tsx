@@ -1,4 +1,14 @@
-import { Announce, Create, Follow, Like, Note, Undo } from "@fedify/fedify";
+import {
+  type Activity,
+  type Actor,
+  type Context as FederationContext,
+  Flag,
+  Follow,
+  Like,
+  type RequestContext,
+  Undo,
+  Update,
+} from "@fedify/fedify";
 import { federation } from "@fedify/fedify/x/hono";
 import { getLogger } from "@logtape/logtape";
 import bcrypt from "bcrypt";
@@ -6,23 +16,75 @@ import { Hono } from "hono";
 import type { Context } from "hono";
 import { deleteCookie, getCookie, setCookie } from "hono/cookie";
 import { stringifyEntities } from "stringify-entities";
+import {
+  getRecipient,
+  getRemoteActors,
+  resolveActor,
+  saveRemoteActor,
+  toRecipient,
+} from "./actors.js";
+import {
+  backfillConversation,
+  enqueueBackfill,
+  startBackfillWorker,
+} from "./backfill.js";
+import { exportBlocklist, previewBlocklist } from "./blocklist.js";
+import {
+  blockActor,
+  blockDomain,
+  getUnblockedRecipient,
+  isBlocked,
+  normalizeDomain,
+  unblock,
+} from "./blocks.js";
 import { connectDB } from "./db.js";
 import fedi from "./federation.js";
+import { acceptFollow, rejectFollow } from "./follows.js";
+import { DEFAULT_GRACE_PERIOD_DAYS, rotateKeyPairs } from "./keys.js";
 import {
   Announce as AnnounceModel,
+  Block as BlockModel,
   Follow as FollowModel,
+  FollowRequest,
   Following,
+  type IKey,
+  type IPost,
+  Key,
   Like as LikeModel,
+  Mute as MuteModel,
   Post,
+  PostRevision,
+  Report as ReportModel,
   User,
 } from "./models.js";
+import { getActiveMutes, validatePattern } from "./mutes.js";
+import { toAnnounce, toCreate, toUpdate } from "./notes.js";
+import { findPage } from "./pagination.js";
 import {
+  type Conversation,
+  type ThreadNode,
+  countReplies,
+  getConversation,
+} from "./threads.js";
+import {
+  type TimelinePage,
+  getHomeTimeline,
+  getProfilePosts,
+} from "./timeline.js";
+import {
+  BlockList,
+  BlocklistPreviewPage,
+  BlocklistTransfer,
+  FollowRequestList,
   FollowerList,
   FollowingList,
   Home,
   Layout,
+  MuteList,
+  PostHistory,
   PostPage,
   Profile,
+  ReportList,
   SetupForm,
 } from "./views.js";
 
@@ -30,6 +92,10 @@ const logger = getLogger("wendy");
 
 await connectDB();
 
+startBackfillWorker(fedi).catch((error) => {
+  logger.error(`Backfill worker stopped: ${error}`);
+});
+
 const app = new Hono();
 
 // Add /@* route to render the user profile page directly (must be before federation middleware)
@@ -49,10 +115,13 @@ app.get("/@*", async (c) => {
   const handle = `@${username}@${url.host}`;
   const domain = c.req.header("host");
 
-  // Fetch this user's posts
-  const posts = await Post.find({ author: username })
-    .sort({ createdAt: -1 })
-    .exec();
+  // One page of this user's own posts
+  const page = await getProfilePosts(username, c.req.query("cursor"));
+  if (!page) return c.text("Invalid cursor", 400);
+  const actors = await getRemoteActors(
+    page.posts.filter(({ post }) => post.remote).map(({ post }) => post.author),
+  );
+  const replyCounts = await countReplies(page.posts.map(({ post }) => post));
 
   return c.html(
     <Layout user={user}>
@@ -61,7 +130,10 @@ app.get("/@*", async (c) => {
         handle={handle}
         followers={followers}
         following={followingCount}
-        posts={posts}
+        posts={page.posts}
+        actors={actors}
+        replyCounts={replyCounts}
+        nextCursor={page.nextCursor}
         isProfilePage={true}
         {...(domain ? { domain } : {})}
       />
@@ -167,12 +239,36 @@ app.get("/session", async (c: AppContext) => {
 });
 
 // Profile update endpoint
+// Sends our current actor to followers so their servers refresh their copy
+async function sendActorUpdate(ctx: RequestContext<unknown>, username: string) {
+  const actor = await ctx.getActor(username);
+  if (!actor) return;
+  await ctx.sendActivity(
+    { identifier: username },
+    "followers",
+    new Update({
+      id: new URL(`#update-actor-${Date.now()}`, ctx.getActorUri(username)),
+      actor: ctx.getActorUri(username),
+      object: actor,
+    }),
+    { preferSharedInbox: true },
+  );
+}
+
 app.post("/profile", async (c: AppContext) => {
   if (!c.get("sessionUser")) {
     return c.json({ ok: false, error: "Unauthorized" }, 401);
   }
-  const { displayName, bio, avatarUrl, headerUrl, username, password } =
-    await c.req.json();
+  const {
+    displayName,
+    bio,
+    avatarUrl,
+    headerUrl,
+    username,
+    password,
+    manuallyApprovesFollowers,
+    hideCollections,
+  } = await c.req.json();
   const user = await User.findOne().exec();
   if (!user) return c.json({ ok: false, error: "User not found" }, 404);
   if (
@@ -191,15 +287,42 @@ app.post("/profile", async (c: AppContext) => {
   if (typeof headerUrl !== "string" || headerUrl.length > 300) {
     return c.json({ ok: false, error: "Invalid headerUrl" }, 400);
   }
+  if (
+    manuallyApprovesFollowers !== undefined &&
+    typeof manuallyApprovesFollowers !== "boolean"
+  ) {
+    return c.json(
+      { ok: false, error: "Invalid manuallyApprovesFollowers" },
+      400,
+    );
+  }
+  if (hideCollections !== undefined && typeof hideCollections !== "boolean") {
+    return c.json({ ok: false, error: "Invalid hideCollections" }, 400);
+  }
   // Username is not editable after setup for now
   user.displayName = displayName;
   user.bio = bio;
   user.avatarUrl = avatarUrl;
   user.headerUrl = headerUrl;
+  if (manuallyApprovesFollowers !== undefined) {
+    user.manuallyApprovesFollowers = manuallyApprovesFollowers;
+  }
+  if (hideCollections !== undefined) {
+    user.hideCollections = hideCollections;
+  }
   if (typeof password === "string" && password.length >= 8) {
     user.passwordHash = await bcrypt.hash(password, 12);
   }
   await user.save();
+
+  // Remote servers only see profile changes, such as locking the account,
+  // once they refetch our actor
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  try {
+    await sendActorUpdate(ctx, user.username);
+  } catch (error) {
+    logger.error(`Failed to send Update(Person) after profile edit: ${error}`);
+  }
   return c.json({ ok: true });
 });
 
@@ -214,7 +337,7 @@ app.use("/*", async (c: AppContext, next) => {
 });
 
 // Home page
-app.get("/", async (c) => {
+app.get("/", async (c: AppContext) => {
   const user = await User.findOne().exec();
   if (!user) return c.redirect("/setup");
 
@@ -226,6 +349,18 @@ app.get("/", async (c) => {
   const url = new URL(c.req.url);
   const handle = `@${user.username}@${url.host}`;
   const domain = c.req.header("host");
+  const error = c.req.query("error");
+
+  const page = await getHomeTimeline(
+    user.username,
+    following,
+    c.req.query("cursor"),
+  );
+  if (!page) return c.text("Invalid cursor", 400);
+  const actors = await getRemoteActors(
+    page.posts.filter(({ post }) => post.remote).map(({ post }) => post.author),
+  );
+  const replyCounts = await countReplies(page.posts.map(({ post }) => post));
 
   return c.html(
     <Layout user={user}>
@@ -234,6 +369,12 @@ app.get("/", async (c) => {
         handle={handle}
         followers={followers}
         following={followingCount}
+        posts={page.posts}
+        actors={actors}
+        replyCounts={replyCounts}
+        nextCursor={page.nextCursor}
+        error={error}
+        isOwner={!!c.get("sessionUser")}
         {...(domain ? { domain } : {})}
       />
     </Layout>,
@@ -246,19 +387,42 @@ app.post("/follow", async (c) => {
   if (!user) return c.redirect("/setup");
 
   const form = await c.req.formData();
-  const handle = form.get("handle")?.toString();
+  const handle = form.get("handle")?.toString().trim();
 
-  if (!handle || !handle.includes("@")) {
-    return c.redirect("/");
+  // Send errors back to the home page, where the follow form is
+  const fail = (error: string) =>
+    c.redirect(`/?error=${encodeURIComponent(error)}`);
+
+  if (!handle) {
+    return fail("Enter a handle like @user@example.com or a profile URL.");
   }
 
-  const [username, domain] = handle.substring(1).split("@");
-  if (!username || !domain) {
-    return c.redirect("/");
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  const publicUrl = `https://${c.req.header("host")}`;
+
+  // Resolve the handle or URL to the canonical actor
+  let actor: Actor | null = null;
+  try {
+    actor = await resolveActor(ctx, handle);
+  } catch (error) {
+    logger.warn(`Failed to resolve ${handle}: ${error}`);
+  }
+  if (!actor?.id) {
+    return fail(`Could not find an account for ${handle}.`);
+  }
+  if (!actor.inboxId) {
+    return fail(`${handle} cannot receive follow requests.`);
   }
+  await saveRemoteActor(actor);
 
-  const targetUrl = `https://${domain}/users/${username}`;
+  const targetUrl = actor.id.href;
   const followerUrl = `https://${c.req.header("host")}/users/${user.username}`;
+  if (targetUrl === followerUrl) {
+    return fail("You cannot follow yourself.");
+  }
+  if (await isBlocked(targetUrl)) {
+    return fail("You have blocked this account or its server.");
+  }
 
   // Check if already following
   const existing = await Following.findOne({
@@ -270,24 +434,27 @@ app.post("/follow", async (c) => {
     return c.redirect("/");
   }
 
-  // Store following relationship
+  // Store following relationship; it stays pending until the target
+  // sends an Accept
+  const followId = new URL(
+    `#follow-${Date.now()}`,
+    `${publicUrl}/users/${user.username}`,
+  );
   await Following.create({
     follower: followerUrl,
     following: targetUrl,
+    inbox: actor.inboxId.href,
+    sharedInbox: actor.endpoints?.sharedInbox?.href,
+    activityId: followId.href,
+    requestedAt: new Date(),
   });
 
   // Send Follow activity
-  const ctx = fedi.createContext(c.req.raw, undefined);
-  const publicUrl = `https://${c.req.header("host")}`;
-
   await ctx.sendActivity(
     { identifier: user.username },
-    { id: new URL(targetUrl), inboxId: new URL(`${targetUrl}/inbox`) },
+    actor,
     new Follow({
-      id: new URL(
-        `#follow-${Date.now()}`,
-        `${publicUrl}/users/${user.username}`,
-      ),
+      id: followId,
       actor: new URL(followerUrl),
       object: new URL(targetUrl),
     }),
@@ -296,6 +463,58 @@ app.post("/follow", async (c) => {
   return c.redirect("/");
 });
 
+// Resend a follow request that hasn't been answered
+app.post("/follow/resend", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const followingUrl = form.get("following")?.toString();
+  const followingPage = `/users/${user.username}/following`;
+
+  if (!followingUrl) {
+    return c.redirect(followingPage);
+  }
+
+  const followerUrl = `https://${c.req.header("host")}/users/${user.username}`;
+  const existing = await Following.findOne({
+    follower: followerUrl,
+    following: followingUrl,
+    accepted: false,
+  }).exec();
+
+  if (!existing) {
+    return c.redirect(followingPage);
+  }
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  const recipient =
+    toRecipient(followingUrl, existing.inbox, existing.sharedInbox) ??
+    (await getRecipient(ctx, followingUrl));
+  if (!recipient) {
+    logger.warn(`No known inbox for ${followingUrl}, not resending Follow`);
+    return c.redirect(followingPage);
+  }
+
+  const followId = new URL(`#follow-${Date.now()}`, followerUrl);
+  existing.activityId = followId.href;
+  existing.requestedAt = new Date();
+  await existing.save();
+
+  await ctx.sendActivity(
+    { identifier: user.username },
+    recipient,
+    new Follow({
+      id: followId,
+      actor: new URL(followerUrl),
+      object: new URL(followingUrl),
+    }),
+  );
+  logger.info(`Resent follow request to ${followingUrl}`);
+
+  return c.redirect(followingPage);
+});
+
 // Unfollow someone
 app.post("/unfollow", async (c) => {
   const user = await User.findOne().exec();
@@ -330,9 +549,17 @@ app.post("/unfollow", async (c) => {
   const ctx = fedi.createContext(c.req.raw, undefined);
   const publicUrl = `https://${c.req.header("host")}`;
 
+  const recipient =
+    toRecipient(followingUrl, existing.inbox, existing.sharedInbox) ??
+    (await getRecipient(ctx, followingUrl));
+  if (!recipient) {
+    logger.warn(`No known inbox for ${followingUrl}, not sending Undo(Follow)`);
+    return c.redirect(`/users/${user.username}/following`);
+  }
+
   await ctx.sendActivity(
     { identifier: user.username },
-    { id: new URL(followingUrl), inboxId: new URL(`${followingUrl}/inbox`) },
+    recipient,
     new Undo({
       id: new URL(
         `#undo-follow-${Date.now()}`,
@@ -340,6 +567,7 @@ app.post("/unfollow", async (c) => {
       ),
       actor: new URL(followerUrl),
       object: new Follow({
+        id: existing.activityId ? new URL(existing.activityId) : null,
         actor: new URL(followerUrl),
         object: new URL(followingUrl),
       }),
@@ -365,10 +593,13 @@ app.get("/users/:username", async (c) => {
   const handle = `@${username}@${url.host}`;
   const domain = c.req.header("host");
 
-  // Fetch this user's posts
-  const posts = await Post.find({ author: username })
-    .sort({ createdAt: -1 })
-    .exec();
+  // One page of this user's own posts
+  const page = await getProfilePosts(username, c.req.query("cursor"));
+  if (!page) return c.text("Invalid cursor", 400);
+  const actors = await getRemoteActors(
+    page.posts.filter(({ post }) => post.remote).map(({ post }) => post.author),
+  );
+  const replyCounts = await countReplies(page.posts.map(({ post }) => post));
 
   return c.html(
     <Layout user={user}>
@@ -377,7 +608,10 @@ app.get("/users/:username", async (c) => {
         handle={handle}
         followers={followers}
         following={followingCount}
-        posts={posts}
+        posts={page.posts}
+        actors={actors}
+        replyCounts={replyCounts}
+        nextCursor={page.nextCursor}
         isProfilePage={true}
         {...(domain ? { domain } : {})}
       />
@@ -385,6 +619,29 @@ app.get("/users/:username", async (c) => {
   );
 });
 
+// Delivers an activity about one of our posts to our followers and, for
+// replies to remote posts, to the author being replied to
+async function sendToAudience(
+  ctx: FederationContext<unknown>,
+  post: IPost,
+  activity: Activity,
+) {
+  await ctx.sendActivity({ identifier: post.author }, "followers", activity, {
+    preferSharedInbox: true,
+  });
+  const parent =
+    post.replyTo?.length === 24
+      ? await Post.findById(post.replyTo).exec()
+      : null;
+  if (!parent?.remote) return;
+  const recipient = await getUnblockedRecipient(ctx, parent.author);
+  if (recipient) {
+    await ctx.sendActivity({ identifier: post.author }, recipient, activity);
+  } else {
+    logger.warn(`No known inbox for ${parent.author}`);
+  }
+}
+
 // Post creation
 app.post("/users/:username/posts", async (c) => {
   const username = c.req.param("username");
@@ -415,23 +672,9 @@ app.post("/users/:username/posts", async (c) => {
       replyTo: lastPostId,
     });
 
-    // Prepare ActivityPub Note
-    const noteData: Record<string, unknown> = {
-      id: new URL(`/users/${username}/posts/${post._id}`, publicUrl),
-      attribution: new URL(`/users/${username}`, publicUrl),
-      content: post.content,
-      mediaType: "text/html",
-      to: new URL("https://www.w3.org/ns/activitystreams#Public"),
-    };
-    if (lastPostId) {
-      noteData.inReplyTo = new URL(
-        `/users/${username}/posts/${lastPostId}`,
-        publicUrl,
-      );
-    }
-    const note = new Note(noteData);
+    const create = await toCreate(ctx, post);
     logger.info(`Sending Create activity to followers for post ${post._id}`);
-    logger.info(`Note ID: ${note.id?.href}`);
+    logger.info(`Note ID: ${create.objectId?.href}`);
     logger.info(`Actor: ${publicUrl}/users/${username}`);
 
     // Check if we have any followers first
@@ -445,15 +688,7 @@ app.post("/users/:username/posts", async (c) => {
       logger.info(`Followers: ${followers.map((f) => f.follower).join(", ")}`);
     }
 
-    await ctx.sendActivity(
-      { identifier: username },
-      "followers",
-      new Create({
-        id: new URL(`#create-${post._id}`, `${publicUrl}/users/${username}`),
-        actor: new URL(`/users/${username}`, publicUrl),
-        object: note,
-      }),
-    );
+    await sendToAudience(ctx, post, create);
 
     logger.info(`Successfully sent Create activity to followers`);
     lastPostId = post._id;
@@ -463,7 +698,7 @@ app.post("/users/:username/posts", async (c) => {
 });
 
 // Post detail page
-app.get("/users/:username/posts/:id", async (c) => {
+app.get("/users/:username/posts/:id", async (c: AppContext) => {
   const username = c.req.param("username");
   const postId = c.req.param("id");
 
@@ -495,6 +730,13 @@ app.get("/users/:username/posts/:id", async (c) => {
   const handle = `@${username}@${url.host}`;
   const domain = c.req.header("host");
 
+  const conversation = await getConversation(post);
+  const actors = await getRemoteActors(
+    threadPosts(conversation)
+      .filter((p) => p.remote)
+      .map((p) => p.author),
+  );
+
   return c.html(
     <Layout user={user}>
       <PostPage
@@ -506,43 +748,665 @@ app.get("/users/:username/posts/:id", async (c) => {
         post={post}
         user={user}
         domain={domain}
+        ancestors={conversation.ancestors}
+        descendants={conversation.descendants}
+        replyCount={conversation.replyCount}
+        actors={actors}
+        isOwner={!!c.get("sessionUser")}
       />
     </Layout>,
   );
 });
 
+// Edit one of our posts and deliver the new version to everyone who received
+// the original
+app.post("/users/:username/posts/:id/edit", async (c) => {
+  const username = c.req.param("username");
+  const postId = c.req.param("id");
+  const postPage = `/users/${username}/posts/${postId}`;
+  if (postId.length !== 24) return c.notFound();
+  const post = await Post.findOne({
+    _id: postId,
+    author: username,
+    remote: { $ne: true },
+  }).exec();
+  if (!post) return c.notFound();
+
+  const form = await c.req.formData();
+  const text = form.get("content")?.toString() ?? "";
+  if (text.trim() === "") return c.text("Content is required", 400);
+  const content = stringifyEntities(text, { escapeOnly: true });
+  if (content === post.content) return c.redirect(postPage);
+
+  // Keep the version being replaced in the revision history
+  const updatedAt = new Date();
+  await PostRevision.create({
+    post: String(post._id),
+    content: post.content,
+    summary: post.summary,
+    createdAt: post.updatedAt ?? post.createdAt,
+    replacedAt: updatedAt,
+  });
+  post.content = content;
+  post.updatedAt = updatedAt;
+  await post.save();
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  try {
+    await sendToAudience(ctx, post, await toUpdate(ctx, post));
+    logger.info(`Sent Update activity for edited post ${post._id}`);
+  } catch (error) {
+    logger.error(`Failed to send Update for post ${post._id}: ${error}`);
+  }
+  return c.redirect(postPage);
+});
+
+// Earlier versions of an edited post
+app.get("/users/:username/posts/:id/history", async (c) => {
+  const username = c.req.param("username");
+  const postId = c.req.param("id");
+  const user = await User.findOne({ username }).exec();
+  if (!user) return c.notFound();
+  if (postId.length !== 24) return c.notFound();
+  const post = await Post.findOne({
+    _id: postId,
+    author: username,
+    remote: { $ne: true },
+  }).exec();
+  if (!post) return c.notFound();
+
+  const revisions = await PostRevision.find({ post: String(post._id) })
+    .sort({ createdAt: -1 })
+    .exec();
+  return c.html(
+    <Layout user={user}>
+      <PostHistory post={post} revisions={revisions} />
+    </Layout>,
+  );
+});
+
+// Every post in a conversation, in no particular order
+function threadPosts(conversation: Conversation): IPost[] {
+  const posts: IPost[] = [];
+  const collect = (nodes: ThreadNode[]) => {
+    for (const node of nodes) {
+      posts.push(node.post);
+      collect(node.children);
+    }
+  };
+  collect(conversation.ancestors);
+  collect(conversation.descendants);
+  return posts;
+}
+
+function postJson(post: IPost): Record<string, unknown> {
+  return {
+    id: String(post._id),
+    author: post.author,
+    content: post.content,
+    summary: post.summary ?? null,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt ?? null,
+    remote: !!post.remote,
+    objectId: post.objectId ?? null,
+    replyTo: post.replyTo ?? null,
+  };
+}
+
+function threadNodeJson(node: ThreadNode): Record<string, unknown> {
+  return {
+    ...postJson(node.post),
+    replyCount: node.replyCount,
+    filtered: node.filtered ?? null,
+    children: node.children.map(threadNodeJson),
+  };
+}
+
+// A page of posts as JSON, for loading more without a page reload
+async function timelineJson(page: TimelinePage) {
+  const replyCounts = await countReplies(page.posts.map(({ post }) => post));
+  return {
+    ok: true,
+    posts: page.posts.map(({ post, filtered }) => ({
+      ...postJson(post),
+      replyCount: replyCounts.get(String(post._id)) ?? 0,
+      filtered: filtered ?? null,
+    })),
+    nextCursor: page.nextCursor,
+  };
+}
+
+// The home timeline as JSON
+app.get("/api/timeline", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.json({ ok: false, error: "Not set up" }, 404);
+  const page = await getHomeTimeline(
+    user.username,
+    `https://${c.req.header("host")}/users/${user.username}`,
+    c.req.query("cursor"),
+  );
+  if (!page) return c.json({ ok: false, error: "Invalid cursor" }, 400);
+  return c.json(await timelineJson(page));
+});
+
+// A user's profile posts as JSON
+app.get("/api/users/:username/posts", async (c) => {
+  const username = c.req.param("username");
+  const user = await User.findOne({ username }).exec();
+  if (!user) return c.json({ ok: false, error: "User not found" }, 404);
+  const page = await getProfilePosts(username, c.req.query("cursor"));
+  if (!page) return c.json({ ok: false, error: "Invalid cursor" }, 400);
+  return c.json(await timelineJson(page));
+});
+
+// Conversation around a post as JSON, for expanding threads client-side
+app.get("/api/posts/:id/thread", async (c) => {
+  const postId = c.req.param("id");
+  if (postId.length !== 24) {
+    return c.json({ ok: false, error: "Invalid post id" }, 400);
+  }
+  const post = await Post.findById(postId).exec();
+  if (!post) return c.json({ ok: false, error: "Post not found" }, 404);
+
+  const conversation = await getConversation(post);
+  return c.json({
+    ok: true,
+    ancestors: conversation.ancestors.map(threadNodeJson),
+    post: threadNodeJson({
+      post,
+      replyCount: conversation.replyCount,
+      children: conversation.descendants,
+    }),
+  });
+});
+
+// Fetch the parts of a post's conversation we never received, then show it
+app.post("/users/:username/posts/:id/backfill", async (c) => {
+  const username = c.req.param("username");
+  const postId = c.req.param("id");
+  const postPage = `/users/${username}/posts/${postId}`;
+  if (postId.length !== 24) return c.notFound();
+  const post = await Post.findOne({ _id: postId, author: username }).exec();
+  if (!post) return c.notFound();
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  try {
+    await backfillConversation(ctx, post);
+  } catch (error) {
+    logger.error(`Failed to backfill conversation of ${postId}: ${error}`);
+  }
+  return c.redirect(postPage);
+});
+
+// Queue a background backfill of any post's conversation
+app.post("/api/posts/:id/backfill", async (c) => {
+  const postId = c.req.param("id");
+  if (postId.length !== 24) {
+    return c.json({ ok: false, error: "Invalid post id" }, 400);
+  }
+  const post = await Post.findById(postId).exec();
+  if (!post) return c.json({ ok: false, error: "Post not found" }, 404);
+
+  await enqueueBackfill(new URL(c.req.url).origin, post);
+  return c.json({ ok: true, queued: true }, 202);
+});
+
 // Followers list
-app.get("/users/:username/followers", async (c) => {
+// Followers and following pages list this many accounts at a time
+const FOLLOW_LIST_PAGE_SIZE = 40;
+
+app.get("/users/:username/followers", async (c: AppContext) => {
   const username = c.req.param("username");
   const user = await User.findOne({ username }).exec();
   if (!user) return c.notFound();
 
   const following = `https://${c.req.header("host")}/users/${username}`;
-  const followers = await FollowModel.find({ following })
+  const isOwner = !!c.get("sessionUser");
+  const hidden = !!user.hideCollections && !isOwner;
+  const total = await FollowModel.countDocuments({ following });
+  const page = hidden
+    ? { items: [], nextCursor: null }
+    : await findPage(FollowModel, { following }, c.req.query("cursor"), {
+        limit: FOLLOW_LIST_PAGE_SIZE,
+      });
+  if (!page) return c.text("Invalid cursor", 400);
+  const actors = await getRemoteActors(page.items.map((f) => f.follower));
+  const pendingRequests = isOwner
+    ? await FollowRequest.countDocuments({ following })
+    : 0;
+
+  return c.html(
+    <Layout user={user}>
+      <FollowerList
+        followers={page.items}
+        actors={actors}
+        total={total}
+        nextCursor={page.nextCursor}
+        hidden={hidden}
+        pendingRequests={pendingRequests}
+        isOwner={isOwner}
+      />
+    </Layout>,
+  );
+});
+
+// Remove a follower and tell their server with Reject(Follow)
+app.post("/followers/remove", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const follower = form.get("follower")?.toString();
+  const following = `https://${c.req.header("host")}/users/${user.username}`;
+  const followersPage = `/users/${user.username}/followers`;
+  const follow = follower
+    ? await FollowModel.findOne({ following, follower }).exec()
+    : null;
+  if (!follow) return c.redirect(followersPage);
+
+  // Delete first so nothing else is delivered to them
+  await follow.deleteOne();
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  await rejectFollow(ctx, user.username, follow);
+  logger.info(`Removed follower ${follow.follower}`);
+
+  return c.redirect(followersPage);
+});
+
+// Blocked actors and domains
+app.get("/blocks", async (c: AppContext) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+  if (!c.get("sessionUser")) return c.redirect("/");
+
+  const blocks = await BlockModel.find().sort({ createdAt: -1 }).exec();
+  const actors = await getRemoteActors(
+    blocks.filter((b) => b.type === "actor").map((b) => b.target),
+  );
+
+  return c.html(
+    <Layout user={user}>
+      <BlockList blocks={blocks} actors={actors} error={c.req.query("error")} />
+      <BlocklistTransfer />
+    </Layout>,
+  );
+});
+
+// Block an actor (handle or URL) or a whole domain
+app.post("/blocks", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const target = form.get("target")?.toString().trim();
+  const fail = (error: string) =>
+    c.redirect(`/blocks?error=${encodeURIComponent(error)}`);
+  if (!target) return fail("Enter a handle, profile URL or domain.");
+
+  // A bare hostname blocks the whole domain
+  const isHandle = target.includes("@") || /^https?:\/\//i.test(target);
+  if (!isHandle) {
+    const domain = normalizeDomain(target);
+    if (!domain) return fail(`${target} is not a valid domain.`);
+    if (domain === new URL(c.req.url).hostname) {
+      return fail("You cannot block your own domain.");
+    }
+    const severity = form.get("severity") === "silence" ? "silence" : "suspend";
+    await blockDomain(domain, { severity });
+    return c.redirect("/blocks");
+  }
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  let actor: Actor | null = null;
+  try {
+    actor = await resolveActor(ctx, target);
+  } catch (error) {
+    logger.warn(`Failed to resolve ${target}: ${error}`);
+  }
+  if (!actor?.id) return fail(`Could not find an account for ${target}.`);
+  if (actor.id.href === ctx.getActorUri(user.username).href) {
+    return fail("You cannot block yourself.");
+  }
+  await saveRemoteActor(actor);
+  await blockActor(ctx, user.username, actor.id.href);
+
+  return c.redirect("/blocks");
+});
+
+// Download our domain blocks as a Mastodon-compatible CSV file
+app.get("/blocks/export.csv", async (c: AppContext) => {
+  if (!c.get("sessionUser")) return c.redirect("/");
+
+  const blocks = await BlockModel.find({ type: "domain" })
+    .sort({ target: 1 })
+    .exec();
+  return c.body(exportBlocklist(blocks), 200, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": 'attachment; filename="blocklist.csv"',
+  });
+});
+
+// Show what importing an uploaded blocklist would change
+app.post("/blocks/import/preview", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const file = form.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return c.redirect(
+      `/blocks?error=${encodeURIComponent("Choose a CSV file to import.")}`,
+    );
+  }
+  const csv = await file.text();
+  const preview = await previewBlocklist(csv);
+
+  return c.html(
+    <Layout user={user}>
+      <BlocklistPreviewPage preview={preview} csv={csv} />
+    </Layout>,
+  );
+});
+
+// Apply a previewed blocklist
+app.post("/blocks/import", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const csv = form.get("csv")?.toString() ?? "";
+  const preview = await previewBlocklist(csv);
+  const ownDomain = new URL(c.req.url).hostname;
+
+  let imported = 0;
+  for (const entry of preview.entries) {
+    if (entry.change === "unchanged" || entry.domain === ownDomain) continue;
+    await blockDomain(entry.domain, entry);
+    imported++;
+  }
+  logger.info(`Imported ${imported} domain blocks`);
+
+  return c.redirect("/blocks");
+});
+
+// Lift a block
+app.post("/blocks/remove", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const id = form.get("id")?.toString();
+  const block = id?.length === 24 ? await BlockModel.findById(id).exec() : null;
+  if (block) {
+    const ctx = fedi.createContext(c.req.raw, undefined);
+    await unblock(ctx, user.username, block);
+  }
+
+  return c.redirect("/blocks");
+});
+
+// Timeline mute filters
+app.get("/mutes", async (c: AppContext) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+  if (!c.get("sessionUser")) return c.redirect("/");
+
+  const mutes = await getActiveMutes();
+  const actors = await getRemoteActors(
+    mutes.filter((m) => m.type === "actor").map((m) => m.target),
+  );
+
+  return c.html(
+    <Layout user={user}>
+      <MuteList mutes={mutes} actors={actors} error={c.req.query("error")} />
+    </Layout>,
+  );
+});
+
+// Add a mute filter
+app.post("/mutes", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const type = form.get("type")?.toString();
+  let target = form.get("target")?.toString().trim();
+  const regex = type === "keyword" && form.get("regex") === "true";
+  const action = form.get("action") === "warn" ? "warn" : "hide";
+  const expiresIn = Number(form.get("expiresIn") || 0);
+  const fail = (error: string) =>
+    c.redirect(`/mutes?error=${encodeURIComponent(error)}`);
+
+  if (!target) return fail("Enter what to mute.");
+  if (!Number.isFinite(expiresIn) || expiresIn < 0) {
+    return fail("Invalid expiry.");
+  }
+
+  if (type === "actor") {
+    const ctx = fedi.createContext(c.req.raw, undefined);
+    let actor: Actor | null = null;
+    try {
+      actor = await resolveActor(ctx, target);
+    } catch (error) {
+      logger.warn(`Failed to resolve ${target}: ${error}`);
+    }
+    if (!actor?.id) return fail(`Could not find an account for ${target}.`);
+    await saveRemoteActor(actor);
+    target = actor.id.href;
+  } else if (type === "domain") {
+    const domain = normalizeDomain(target);
+    if (!domain) return fail(`${target} is not a valid domain.`);
+    target = domain;
+  } else if (type === "keyword") {
+    const error = regex ? validatePattern(target) : null;
+    if (error) return fail(`Invalid regular expression: ${error}`);
+  } else {
+    return fail("Invalid mute type.");
+  }
+
+  await MuteModel.create({
+    type,
+    target,
+    regex,
+    action,
+    ...(expiresIn > 0 && {
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    }),
+  });
+  logger.info(`Muted ${type} ${target}`);
+
+  return c.redirect("/mutes");
+});
+
+// Remove a mute filter
+app.post("/mutes/remove", async (c) => {
+  const form = await c.req.formData();
+  const id = form.get("id")?.toString();
+  if (id?.length === 24) await MuteModel.deleteOne({ _id: id }).exec();
+  return c.redirect("/mutes");
+});
+
+// Reports received from other servers
+app.get("/moderation", async (c: AppContext) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+  if (!c.get("sessionUser")) return c.redirect("/");
+
+  const open = await ReportModel.find({ status: "open" })
+    .sort({ createdAt: -1 })
+    .exec();
+  const closed = await ReportModel.find({ status: { $ne: "open" } })
+    .sort({ closedAt: -1 })
+    .limit(50)
+    .exec();
+  const actors = await getRemoteActors(
+    [...open, ...closed].map((r) => r.reporter),
+  );
+
+  return c.html(
+    <Layout user={user}>
+      <ReportList open={open} closed={closed} actors={actors} />
+    </Layout>,
+  );
+});
+
+// Resolve or dismiss a report
+app.post("/moderation/close", async (c) => {
+  const form = await c.req.formData();
+  const id = form.get("id")?.toString();
+  const status = form.get("status")?.toString();
+  if (id?.length === 24 && (status === "resolved" || status === "dismissed")) {
+    await ReportModel.updateOne(
+      { _id: id, status: "open" },
+      { $set: { status, closedAt: new Date() } },
+    ).exec();
+  }
+  return c.redirect("/moderation");
+});
+
+// Report a remote post to its author's server with a Flag
+app.post("/report", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const postId = form.get("postId")?.toString();
+  const comment = form.get("comment")?.toString().trim().slice(0, 1000);
+  const post =
+    postId?.length === 24 ? await Post.findById(postId).exec() : null;
+  if (!post?.remote) return c.redirect("/");
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  const recipient = await getUnblockedRecipient(ctx, post.author);
+  if (!recipient) {
+    logger.warn(`No known inbox for ${post.author}, cannot send report`);
+    return c.redirect(
+      `/?error=${encodeURIComponent("Could not reach the author's server to send the report.")}`,
+    );
+  }
+
+  const actorUri = ctx.getActorUri(user.username);
+  await ctx.sendActivity(
+    { identifier: user.username },
+    recipient,
+    new Flag({
+      id: new URL(`#flag-${Date.now()}`, actorUri),
+      actor: actorUri,
+      objects: [
+        new URL(post.author),
+        ...(post.objectId ? [new URL(post.objectId)] : []),
+      ],
+      content: comment || undefined,
+    }),
+    { preferSharedInbox: true },
+  );
+  logger.info(`Reported ${post.objectId ?? post.author} to its server`);
+
+  return c.redirect("/");
+});
+
+// Follow requests awaiting approval (locked accounts)
+app.get("/follow-requests", async (c: AppContext) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+  if (!c.get("sessionUser")) return c.redirect("/");
+
+  const following = `https://${c.req.header("host")}/users/${user.username}`;
+  const requests = await FollowRequest.find({ following })
     .sort({ createdAt: -1 })
     .exec();
+  const actors = await getRemoteActors(requests.map((r) => r.follower));
 
   return c.html(
     <Layout user={user}>
-      <FollowerList followers={followers} />
+      <FollowRequestList requests={requests} actors={actors} />
     </Layout>,
   );
 });
 
+// Approve a follow request: make them a follower and send Accept
+app.post("/follow-requests/approve", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const follower = form.get("follower")?.toString();
+  const following = `https://${c.req.header("host")}/users/${user.username}`;
+  const request = follower
+    ? await FollowRequest.findOne({ following, follower }).exec()
+    : null;
+  if (!request) return c.redirect("/follow-requests");
+
+  await FollowModel.updateOne(
+    { following, follower: request.follower },
+    {
+      $set: {
+        inbox: request.inbox,
+        sharedInbox: request.sharedInbox,
+        activityId: request.activityId,
+      },
+      $setOnInsert: { createdAt: new Date() },
+    },
+    { upsert: true },
+  );
+  await request.deleteOne();
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  await acceptFollow(ctx, user.username, request);
+  logger.info(`Approved follow request from ${request.follower}`);
+
+  return c.redirect("/follow-requests");
+});
+
+// Deny a follow request and send Reject
+app.post("/follow-requests/deny", async (c) => {
+  const user = await User.findOne().exec();
+  if (!user) return c.redirect("/setup");
+
+  const form = await c.req.formData();
+  const follower = form.get("follower")?.toString();
+  const following = `https://${c.req.header("host")}/users/${user.username}`;
+  const request = follower
+    ? await FollowRequest.findOne({ following, follower }).exec()
+    : null;
+  if (!request) return c.redirect("/follow-requests");
+
+  await request.deleteOne();
+
+  const ctx = fedi.createContext(c.req.raw, undefined);
+  await rejectFollow(ctx, user.username, request);
+  logger.info(`Denied follow request from ${request.follower}`);
+
+  return c.redirect("/follow-requests");
+});
+
 // Following list
-app.get("/users/:username/following", async (c) => {
+app.get("/users/:username/following", async (c: AppContext) => {
   const username = c.req.param("username");
   const user = await User.findOne({ username }).exec();
   if (!user) return c.notFound();
 
   const follower = `https://${c.req.header("host")}/users/${username}`;
-  const following = await Following.find({ follower })
-    .sort({ createdAt: -1 })
-    .exec();
+  const hidden = !!user.hideCollections && !c.get("sessionUser");
+  const total = await Following.countDocuments({ follower });
+  const page = hidden
+    ? { items: [], nextCursor: null }
+    : await findPage(Following, { follower }, c.req.query("cursor"), {
+        limit: FOLLOW_LIST_PAGE_SIZE,
+      });
+  if (!page) return c.text("Invalid cursor", 400);
+  const actors = await getRemoteActors(page.items.map((f) => f.following));
 
   return c.html(
     <Layout user={user}>
-      <FollowingList following={following} />
+      <FollowingList
+        following={page.items}
+        actors={actors}
+        total={total}
+        nextCursor={page.nextCursor}
+        hidden={hidden}
+      />
     </Layout>,
   );
 });
@@ -604,17 +1468,23 @@ app.post("/api/like", async (c) => {
         actor: new URL(actorUrl),
         object: new URL(objectUrl),
       }),
+      { preferSharedInbox: true },
     );
 
     // Send to original post author if it's a remote post
     if (post.remote && post.remoteAuthorUrl) {
       try {
-        const authorUrl = new URL(post.remoteAuthorUrl);
-        const authorInbox = new URL("/inbox", authorUrl.origin);
+        const recipient = await getUnblockedRecipient(
+          ctx,
+          post.remoteAuthorUrl,
+        );
+        if (!recipient) {
+          throw new Error(`No known inbox for ${post.remoteAuthorUrl}`);
+        }
 
         await ctx.sendActivity(
           { identifier: user.username },
-          { id: authorUrl, inboxId: authorInbox },
+          recipient,
           new Like({
             id: new URL(
               `#like-${Date.now()}`,
@@ -692,17 +1562,23 @@ app.post("/api/unlike", async (c) => {
           object: new URL(objectUrl),
         }),
       }),
+      { preferSharedInbox: true },
     );
 
     // Send to original post author if it's a remote post
     if (post.remote && post.remoteAuthorUrl) {
       try {
-        const authorUrl = new URL(post.remoteAuthorUrl);
-        const authorInbox = new URL("/inbox", authorUrl.origin);
+        const recipient = await getUnblockedRecipient(
+          ctx,
+          post.remoteAuthorUrl,
+        );
+        if (!recipient) {
+          throw new Error(`No known inbox for ${post.remoteAuthorUrl}`);
+        }
 
         await ctx.sendActivity(
           { identifier: user.username },
-          { id: authorUrl, inboxId: authorInbox },
+          recipient,
           new Undo({
             id: new URL(
               `#undo-like-${Date.now()}`,
@@ -747,9 +1623,12 @@ app.post("/api/announce", async (c) => {
   // Check if post exists
   const post = await Post.findById(postId).exec();
   if (!post) return c.json({ ok: false, error: "Post not found" }, 404);
+  // A remote post can only be reposted by its object id
+  if (post.remote && !post.objectId) {
+    return c.json({ ok: false, error: "Post cannot be reposted" }, 400);
+  }
 
   const actorUrl = `https://${c.req.header("host")}/users/${user.username}`;
-  const objectUrl = `https://${c.req.header("host")}/users/${post.author}/posts/${postId}`;
 
   try {
     // Check if already announced
@@ -762,50 +1641,44 @@ app.post("/api/announce", async (c) => {
     }
 
     // Store the announce using upsert for idempotency
-    await AnnounceModel.updateOne(
+    const announce = await AnnounceModel.findOneAndUpdate(
       { actor: actorUrl, object: postId },
       {
         $set: { actor: actorUrl, object: postId },
         $setOnInsert: { createdAt: new Date() },
       },
-      { upsert: true },
-    );
+      { upsert: true, new: true },
+    ).exec();
 
     // Send Announce activity to followers and original author
     const ctx = fedi.createContext(c.req.raw, undefined);
-    const publicUrl = `https://${c.req.header("host")}`;
+    // The same activity the outbox lists this repost as
+    const activity = toAnnounce(ctx, user.username, announce, post);
+    if (!activity) throw new Error(`Post ${postId} has no object id`);
 
     // Send to followers
     await ctx.sendActivity(
       { identifier: user.username },
       "followers",
-      new Announce({
-        id: new URL(
-          `#announce-${Date.now()}`,
-          `${publicUrl}/users/${user.username}`,
-        ),
-        actor: new URL(actorUrl),
-        object: new URL(objectUrl),
-      }),
+      activity,
+      { preferSharedInbox: true },
     );
 
     // Send to original post author if it's a remote post
     if (post.remote && post.remoteAuthorUrl) {
       try {
-        const authorUrl = new URL(post.remoteAuthorUrl);
-        const authorInbox = new URL("/inbox", authorUrl.origin);
+        const recipient = await getUnblockedRecipient(
+          ctx,
+          post.remoteAuthorUrl,
+        );
+        if (!recipient) {
+          throw new Error(`No known inbox for ${post.remoteAuthorUrl}`);
+        }
 
         await ctx.sendActivity(
           { identifier: user.username },
-          { id: authorUrl, inboxId: authorInbox },
-          new Announce({
-            id: new URL(
-              `#announce-${Date.now()}`,
-              `${publicUrl}/users/${user.username}`,
-            ),
-            actor: new URL(actorUrl),
-            object: new URL(objectUrl),
-          }),
+          recipient,
+          activity,
         );
       } catch (error) {
         logger.error(`Failed to send announce to remote author: ${error}`);
@@ -843,7 +1716,6 @@ app.post("/api/unannounce", async (c) => {
   if (!post) return c.json({ ok: false, error: "Post not found" }, 404);
 
   const actorUrl = `https://${c.req.header("host")}/users/${user.username}`;
-  const objectUrl = `https://${c.req.header("host")}/users/${post.author}/posts/${postId}`;
 
   try {
     // Check if announced
@@ -861,6 +1733,8 @@ app.post("/api/unannounce", async (c) => {
     // Send Undo(Announce) activity to followers and original author
     const ctx = fedi.createContext(c.req.raw, undefined);
     const publicUrl = `https://${c.req.header("host")}`;
+    const announce = toAnnounce(ctx, user.username, existingAnnounce, post);
+    if (!announce) throw new Error(`Post ${postId} has no object id`);
 
     // Send to followers
     await ctx.sendActivity(
@@ -872,32 +1746,32 @@ app.post("/api/unannounce", async (c) => {
           `${publicUrl}/users/${user.username}`,
         ),
         actor: new URL(actorUrl),
-        object: new Announce({
-          actor: new URL(actorUrl),
-          object: new URL(objectUrl),
-        }),
+        object: announce,
       }),
+      { preferSharedInbox: true },
     );
 
     // Send to original post author if it's a remote post
     if (post.remote && post.remoteAuthorUrl) {
       try {
-        const authorUrl = new URL(post.remoteAuthorUrl);
-        const authorInbox = new URL("/inbox", authorUrl.origin);
+        const recipient = await getUnblockedRecipient(
+          ctx,
+          post.remoteAuthorUrl,
+        );
+        if (!recipient) {
+          throw new Error(`No known inbox for ${post.remoteAuthorUrl}`);
+        }
 
         await ctx.sendActivity(
           { identifier: user.username },
-          { id: authorUrl, inboxId: authorInbox },
+          recipient,
           new Undo({
             id: new URL(
               `#undo-announce-${Date.now()}`,
               `${publicUrl}/users/${user.username}`,
             ),
             actor: new URL(actorUrl),
-            object: new Announce({
-              actor: new URL(actorUrl),
-              object: new URL(objectUrl),
-            }),
+            object: announce,
           }),
         );
       } catch (error) {
@@ -1041,4 +1915,56 @@ app.post("/api/posts/stats", async (c) => {
   }
 });
 
+// Key metadata for the owner; private keys never leave the server
+function keySummary(key: IKey) {
+  return {
+    type: key.type,
+    created: key.created,
+    retired: key.retired,
+    expires: key.expires ?? null,
+  };
+}
+
+// List the actor's keys with their creation and retirement times
+app.get("/api/keys", async (c: AppContext) => {
+  if (!c.get("sessionUser")) {
+    return c.json({ ok: false, error: "Unauthorized" }, 401);
+  }
+  const user = await User.findOne().exec();
+  if (!user) return c.json({ ok: false, error: "User not found" }, 404);
+
+  const keys = await Key.find({ user_id: user._id })
+    .sort({ created: -1 })
+    .exec();
+  return c.json({ ok: true, keys: keys.map(keySummary) });
+});
+
+// Rotate the actor's key pairs and tell followers to refresh our actor
+app.post("/api/keys/rotate", async (c: AppContext) => {
+  if (!c.get("sessionUser")) {
+    return c.json({ ok: false, error: "Unauthorized" }, 401);
+  }
+  const user = await User.findOne().exec();
+  if (!user) return c.json({ ok: false, error: "User not found" }, 404);
+
+  const body = await c.req.json().catch(() => ({}));
+  const graceDays = body.graceDays ?? DEFAULT_GRACE_PERIOD_DAYS;
+  if (typeof graceDays !== "number" || graceDays < 0 || graceDays > 365) {
+    return c.json({ ok: false, error: "Invalid graceDays" }, 400);
+  }
+
+  try {
+    const keys = await rotateKeyPairs(user, graceDays);
+
+    const ctx = fedi.createContext(c.req.raw, undefined);
+    await sendActorUpdate(ctx, user.username);
+    logger.info("Sent Update(Person) to followers after key rotation");
+
+    return c.json({ ok: true, keys: keys.map(keySummary) });
+  } catch (error) {
+    logger.error(`Failed to rotate keys: ${error}`);
+    return c.json({ ok: false, error: "Failed to rotate keys" }, 500);
+  }
+});
+
 export default app;
@@ -0,0 +1,168 @@
+import { type Context, type Federation, Link, Note } from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { isBlocked } from "./blocks.js";
+import { type IPost, Post } from "./models.js";
+import { storeRemoteNote } from "./notes.js";
+import { MongoMessageQueue } from "./store.js";
+
+const logger = getLogger("wendy");
+
+// Limits that keep one backfill from crawling a whole server
+const MAX_DEPTH = 5; // levels of parents above and replies below the post
+const MAX_POSTS = 100; // new posts stored per backfill
+const MAX_ITEMS = 200; // collection items looked at per post
+
+export interface BackfillMessage {
+  baseUrl: string; // our origin, to build a federation context in the worker
+  postId: string;
+}
+
+const backfillQueue = new MongoMessageQueue({ channel: "backfill" });
+
+// Queues a backfill of the conversation around a post
+export async function enqueueBackfill(baseUrl: string | URL, post: IPost) {
+  const message: BackfillMessage = {
+    baseUrl: String(baseUrl),
+    postId: String(post._id),
+  };
+  await backfillQueue.enqueue(message);
+}
+
+// Processes queued backfills until the signal is aborted
+export function startBackfillWorker(
+  federation: Federation<unknown>,
+  signal?: AbortSignal,
+): Promise<void> {
+  return backfillQueue.listen(
+    async (message) => {
+      const { baseUrl, postId } = message as BackfillMessage;
+      const post = await Post.findById(postId).exec();
+      if (!post) return;
+      const ctx = federation.createContext(new URL(baseUrl), undefined);
+      await backfillConversation(ctx, post);
+    },
+    { signal },
+  );
+}
+
+interface Budget {
+  remaining: number;
+}
+
+// Dereferences a Note and stores it unless we have it already, returning the
+// stored post either way.  Notes embedded in someone else's collection are
+// never trusted: we always fetch the Note from its own origin, and only
+// accept it if its author lives on that same origin.
+async function fetchNote(
+  ctx: Context<unknown>,
+  item: Note | URL,
+  budget: Budget,
+): Promise<IPost | null> {
+  const id = item instanceof URL ? item : item.id;
+  if (!id) return null;
+  const existing = await Post.findOne({ objectId: id.href }).exec();
+  if (existing) return existing;
+  if (budget.remaining <= 0) return null;
+
+  let note: unknown;
+  try {
+    note = await ctx.lookupObject(id);
+  } catch (error) {
+    logger.warn(`Failed to fetch ${id.href} for backfill: ${error}`);
+    return null;
+  }
+  if (!(note instanceof Note) || !note.id || !note.attributionId) return null;
+  if (note.attributionId.origin !== note.id.origin) {
+    logger.warn(
+      `Ignoring ${note.id.href}, attributed to ${note.attributionId.href} on another origin`,
+    );
+    return null;
+  }
+  if (await isBlocked(note.attributionId)) return null;
+
+  const actor = await note.getAttribution({ suppressError: true });
+  const post = await storeRemoteNote(ctx, note, note.attributionId.href, actor);
+  if (post) budget.remaining--;
+  return post;
+}
+
+// Follows the `inReplyTo` chain up from a post, storing parents we lack
+async function backfillAncestors(
+  ctx: Context<unknown>,
+  post: IPost,
+  budget: Budget,
+) {
+  let current: IPost | null = post;
+  for (let depth = 0; current && depth < MAX_DEPTH; depth++) {
+    if (current.replyTo?.length === 24) {
+      current = await Post.findById(current.replyTo).exec();
+    } else if (current.inReplyTo) {
+      current = await fetchNote(ctx, new URL(current.inReplyTo), budget);
+    } else {
+      break;
+    }
+  }
+}
+
+// Walks the `replies` collections below a post, storing replies we lack
+async function backfillReplies(
+  ctx: Context<unknown>,
+  post: IPost,
+  budget: Budget,
+) {
+  let frontier = [post];
+  for (let depth = 0; depth < MAX_DEPTH && frontier.length > 0; depth++) {
+    const next = new Map<string, IPost>();
+    for (const parent of frontier) {
+      // Replies we already know are descended into as well
+      for (const reply of await Post.find({ replyTo: String(parent._id) })) {
+        next.set(String(reply._id), reply);
+      }
+      // Our own posts' replies collections list nothing we don't have
+      if (!parent.remote || !parent.objectId) continue;
+
+      let note: unknown;
+      try {
+        note = await ctx.lookupObject(parent.objectId);
+      } catch (error) {
+        logger.warn(`Failed to fetch ${parent.objectId}: ${error}`);
+        continue;
+      }
+      if (!(note instanceof Note)) continue;
+      const replies = await note.getReplies({ suppressError: true });
+      if (!replies) continue;
+
+      let seen = 0;
+      for await (const item of ctx.traverseCollection(replies, {
+        suppressError: true,
+      })) {
+        if (++seen > MAX_ITEMS || budget.remaining <= 0) break;
+        const target =
+          item instanceof Note
+            ? item
+            : item instanceof Link
+              ? item.href
+              : item.id;
+        if (!target) continue;
+        const reply = await fetchNote(ctx, target, budget);
+        if (reply) next.set(String(reply._id), reply);
+      }
+    }
+    frontier = [...next.values()];
+  }
+}
+
+// Fetches the parts of a conversation that were never delivered to us: the
+// posts it replies to and the replies listed in each post's `replies`
+// collection.  Returns how many posts were added.
+export async function backfillConversation(
+  ctx: Context<unknown>,
+  post: IPost,
+): Promise<number> {
+  const budget: Budget = { remaining: MAX_POSTS };
+  await backfillAncestors(ctx, post, budget);
+  await backfillReplies(ctx, post, budget);
+  const stored = MAX_POSTS - budget.remaining;
+  logger.info(`Backfilled ${stored} posts around ${post._id}`);
+  return stored;
+}
@@ -0,0 +1,152 @@
+import { normalizeDomain } from "./blocks.js";
+import {
+  BLOCK_SEVERITIES,
+  Block,
+  type BlockSeverity,
+  type IBlock,
+} from "./models.js";
+
+// Domain blocklists are shared in the CSV format Mastodon exports:
+//
+//   #domain,#severity,#reject_media,#public_comment
+//   example.com,suspend,true,Spam
+//
+// Columns are matched by header name, so files with extra columns (like
+// #reject_reports or #obfuscate) or without the leading # import as well.
+// A file without a header is read as one domain per line.
+
+export interface BlocklistEntry {
+  domain: string;
+  severity: BlockSeverity;
+  rejectMedia: boolean;
+  publicComment?: string;
+}
+
+export type BlocklistChange = "add" | "update" | "unchanged";
+
+export interface BlocklistPreview {
+  entries: (BlocklistEntry & { change: BlocklistChange })[];
+  // Lines that couldn't be imported, with the reason
+  invalid: { line: number; text: string; reason: string }[];
+}
+
+// Splits one CSV record, honouring double-quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Parses a blocklist file.  "noop" rows, which Mastodon uses for domains
+// that are only listed for their comment, are skipped.
+export function parseBlocklist(csv: string): BlocklistPreview {
+  const lines = csv.split(/\r?\n/);
+  const header = parseCsvLine(lines[0] ?? "").map((h) =>
+    h.replace(/^#/, "").toLowerCase(),
+  );
+  const hasHeader = header.includes("domain");
+  const column = (name: string) =>
+    hasHeader ? header.indexOf(name) : name === "domain" ? 0 : -1;
+  const columns = {
+    domain: column("domain"),
+    severity: column("severity"),
+    rejectMedia: column("reject_media"),
+    publicComment: column("public_comment"),
+  };
+
+  const preview: BlocklistPreview = { entries: [], invalid: [] };
+  const seen = new Set<string>();
+  lines.forEach((text, index) => {
+    if ((hasHeader && index === 0) || !text.trim()) return;
+    const fields = parseCsvLine(text);
+    const field = (i: number) => (i < 0 ? "" : (fields[i] ?? ""));
+    const line = index + 1;
+
+    const domain = normalizeDomain(field(columns.domain));
+    if (!domain) {
+      preview.invalid.push({ line, text, reason: "invalid domain" });
+      return;
+    }
+    const severity = field(columns.severity).toLowerCase() || "suspend";
+    if (severity === "noop") return;
+    if (!(BLOCK_SEVERITIES as readonly string[]).includes(severity)) {
+      preview.invalid.push({ line, text, reason: "unknown severity" });
+      return;
+    }
+    if (seen.has(domain)) return;
+    seen.add(domain);
+
+    preview.entries.push({
+      domain,
+      severity: severity as BlockSeverity,
+      rejectMedia: field(columns.rejectMedia).toLowerCase() === "true",
+      publicComment: field(columns.publicComment) || undefined,
+      change: "add",
+    });
+  });
+  return preview;
+}
+
+// Parses a blocklist and marks each entry as new, changed, or already in
+// our domain block list
+export async function previewBlocklist(csv: string): Promise<BlocklistPreview> {
+  const preview = parseBlocklist(csv);
+  const existing = await Block.find({
+    type: "domain",
+    target: { $in: preview.entries.map((e) => e.domain) },
+  }).exec();
+  const blocks = new Map(existing.map((b) => [b.target, b]));
+  for (const entry of preview.entries) {
+    const block = blocks.get(entry.domain);
+    if (!block) continue;
+    entry.change =
+      block.severity === entry.severity &&
+      block.rejectMedia === entry.rejectMedia
+        ? "unchanged"
+        : "update";
+  }
+  return preview;
+}
+
+// Writes our domain blocks in Mastodon's CSV format
+export function exportBlocklist(blocks: IBlock[]): string {
+  const rows = blocks
+    .filter((block) => block.type === "domain")
+    .map((block) =>
+      [
+        block.target,
+        block.severity,
+        String(block.rejectMedia),
+        block.publicComment ?? "",
+      ]
+        .map(toCsvField)
+        .join(","),
+    );
+  return `${["#domain,#severity,#reject_media,#public_comment", ...rows].join("\n")}\n`;
+}
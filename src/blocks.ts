@@ -0,0 +1,248 @@
+import {
+  type Context,
+  Block as FediBlock,
+  type Recipient,
+  Undo,
+} from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { getRecipient } from "./actors.js";
+import {
+  Block,
+  type BlockSeverity,
+  Follow,
+  FollowRequest,
+  Following,
+  type IBlock,
+  Post,
+} from "./models.js";
+
+const logger = getLogger("wendy");
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Normalises a domain as typed by the owner or found in a blocklist
+// ("Example.COM", "*.example.com", "https://example.com/") to its hostname
+export function normalizeDomain(input: string): string | null {
+  const trimmed = input
+    .trim()
+    .replace(/^\*\./, "")
+    .replace(/^https?:\/\//i, "")
+    .replace(/\/.*$/, "");
+  if (!trimmed || /[\s@]/.test(trimmed)) return null;
+  try {
+    return new URL(`https://${trimmed}`).hostname.replace(/\.$/, "");
+  } catch {
+    return null;
+  }
+}
+
+// A host and the domains it belongs to, since blocking a domain also blocks
+// its subdomains
+function parentDomains(host: string): string[] {
+  const parts = host.toLowerCase().split(".");
+  return parts.map((_, i) => parts.slice(i).join("."));
+}
+
+// Whether an actor URL is blocked directly or through a suspended domain
+export async function isBlocked(uri: string | URL): Promise<boolean> {
+  const url = new URL(uri);
+  const blocked = await Block.exists({
+    $or: [
+      { type: "actor", target: url.href },
+      {
+        type: "domain",
+        target: { $in: parentDomains(url.hostname) },
+        severity: { $ne: "silence" },
+      },
+    ],
+  });
+  return blocked != null;
+}
+
+// Returns the delivery target for an actor we address directly, or null if
+// the actor or its domain is blocked.  Only Block and Undo(Block) activities
+// still go to blocked actors, through getRecipient.
+export async function getUnblockedRecipient(
+  ctx: Context<unknown>,
+  uri: string,
+): Promise<Recipient | null> {
+  if (await isBlocked(uri)) {
+    logger.info(`Not delivering to ${uri}, which is blocked`);
+    return null;
+  }
+  return await getRecipient(ctx, uri);
+}
+
+// Builds a MongoDB filter that excludes documents whose `field` holds the URL
+// of a blocked actor or of an actor on a suspended domain.  With `silenced`,
+// actors on silenced domains are excluded as well.
+export async function unblockedFilter(
+  field: string,
+  { silenced = false }: { silenced?: boolean } = {},
+): Promise<Record<string, unknown>> {
+  const blocks = await Block.find().exec();
+  const actors = blocks.filter((b) => b.type === "actor").map((b) => b.target);
+  const domains = blocks
+    .filter(
+      (b) => b.type === "domain" && (silenced || b.severity !== "silence"),
+    )
+    .map((b) => escapeRegExp(b.target));
+  const conditions: Record<string, unknown>[] = [];
+  if (actors.length > 0) conditions.push({ [field]: { $in: actors } });
+  if (domains.length > 0) {
+    conditions.push({
+      [field]: {
+        $regex: `^https?://([^/]*\\.)?(${domains.join("|")})(:\\d+)?(/|$)`,
+        $options: "i",
+      },
+    });
+  }
+  return conditions.length > 0 ? { $nor: conditions } : {};
+}
+
+// Builds a MongoDB filter on posts that leaves out blocked authors and posts
+// from suspended domains.  With `silenced`, posts from silenced domains are
+// left out as well.  Domains are matched on the indexed `host` of each post:
+// we only have posts from a limited set of hosts, so those a block covers,
+// subdomains included, can be listed.
+export async function unblockedPostFilter({
+  silenced = false,
+}: { silenced?: boolean } = {}): Promise<Record<string, unknown>> {
+  const blocks = await Block.find().exec();
+  const actors = blocks.filter((b) => b.type === "actor").map((b) => b.target);
+  const domains = new Set(
+    blocks
+      .filter(
+        (b) => b.type === "domain" && (silenced || b.severity !== "silence"),
+      )
+      .map((b) => b.target),
+  );
+  const filter: Record<string, unknown> = {};
+  if (actors.length > 0) filter.author = { $nin: actors };
+  if (domains.size > 0) {
+    const hosts = (await Post.distinct("host").exec()).filter(
+      (host): host is string =>
+        typeof host === "string" &&
+        parentDomains(host).some((domain) => domains.has(domain)),
+    );
+    if (hosts.length > 0) filter.host = { $nin: hosts };
+  }
+  return filter;
+}
+
+// Drops follow relationships in both directions with the given actor, or
+// with every actor on the given domain
+async function severRelationships(block: IBlock) {
+  const match =
+    block.type === "actor"
+      ? block.target
+      : {
+          $regex: `^https?://([^/]*\\.)?${escapeRegExp(block.target)}(:\\d+)?(/|$)`,
+          $options: "i",
+        };
+  const followers = await Follow.deleteMany({ follower: match }).exec();
+  const requests = await FollowRequest.deleteMany({ follower: match }).exec();
+  const following = await Following.deleteMany({ following: match }).exec();
+  logger.info(
+    `Blocked ${block.target}: removed ${followers.deletedCount} followers, ` +
+      `${requests.deletedCount} follow requests and ` +
+      `${following.deletedCount} follows`,
+  );
+}
+
+// Blocks a remote actor and tells their server with a Block activity
+export async function blockActor(
+  ctx: Context<unknown>,
+  identifier: string,
+  uri: string,
+): Promise<IBlock> {
+  const existing = await Block.findOne({ type: "actor", target: uri }).exec();
+  if (existing) return existing;
+
+  const actorUri = ctx.getActorUri(identifier);
+  const activityId = new URL(`#block-${Date.now()}`, actorUri);
+  const block = await Block.create({
+    type: "actor",
+    target: uri,
+    activityId: activityId.href,
+  });
+  await severRelationships(block);
+
+  const recipient = await getRecipient(ctx, uri);
+  if (recipient) {
+    await ctx.sendActivity(
+      { identifier },
+      recipient,
+      new FediBlock({
+        id: activityId,
+        actor: actorUri,
+        object: new URL(uri),
+      }),
+    );
+  } else {
+    logger.warn(`No known inbox for ${uri}, not sending Block`);
+  }
+  return block;
+}
+
+export interface DomainBlockOptions {
+  severity?: BlockSeverity;
+  rejectMedia?: boolean;
+  publicComment?: string;
+}
+
+// Blocks every actor on a domain, or changes the severity of an existing
+// domain block.  Nothing is sent to the domain.
+export async function blockDomain(
+  domain: string,
+  options: DomainBlockOptions = {},
+): Promise<IBlock> {
+  const severity = options.severity ?? "suspend";
+  const existing = await Block.findOne({
+    type: "domain",
+    target: domain,
+  }).exec();
+  const block = existing ?? new Block({ type: "domain", target: domain });
+  const wasSuspended = existing != null && existing.severity !== "silence";
+  block.severity = severity;
+  if (options.rejectMedia != null) block.rejectMedia = options.rejectMedia;
+  if (options.publicComment != null) {
+    block.publicComment = options.publicComment;
+  }
+  await block.save();
+
+  // Silenced domains keep federating, so relationships are only dropped once
+  // a domain is suspended
+  if (severity === "suspend" && !wasSuspended) await severRelationships(block);
+  return block;
+}
+
+// Lifts a block; actor blocks are undone on the remote server too
+export async function unblock(
+  ctx: Context<unknown>,
+  identifier: string,
+  block: IBlock,
+) {
+  await block.deleteOne();
+  logger.info(`Unblocked ${block.target}`);
+  if (block.type !== "actor") return;
+
+  const recipient = await getRecipient(ctx, block.target);
+  if (!recipient) return;
+  const actorUri = ctx.getActorUri(identifier);
+  await ctx.sendActivity(
+    { identifier },
+    recipient,
+    new Undo({
+      id: new URL(`#undo-block-${Date.now()}`, actorUri),
+      actor: actorUri,
+      object: new FediBlock({
+        id: block.activityId ? new URL(block.activityId) : null,
+        actor: actorUri,
+        object: new URL(block.target),
+      }),
+    }),
+  );
+}
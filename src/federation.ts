@@ -1,46 +1,120 @@
 import {
   Accept,
+  type Activity,
   Announce,
   type Context,
   Create,
+  CryptographicKey,
   Delete,
   Endpoints,
   Follow as FediFollow,
+  Flag,
   Image,
+  type InboxContext,
   Like,
+  Multikey,
   Note,
-  PUBLIC_COLLECTION,
   Person,
   type Recipient,
+  Reject,
   Undo,
+  Update,
   createFederation,
-  generateCryptoKeyPair,
+  isActor,
 } from "@fedify/fedify";
-import { InProcessMessageQueue, MemoryKvStore } from "@fedify/fedify";
 import { getLogger } from "@logtape/logtape";
+import { getRecipient, saveRemoteActor, toRecipient } from "./actors.js";
+import { isBlocked, unblockedFilter, unblockedPostFilter } from "./blocks.js";
 import { connectDB } from "./db.js";
+import { acceptFollow } from "./follows.js";
+import { getKeyPairs, getRetiredKeys } from "./keys.js";
+import { runMigrations, watchIndexBuilds } from "./migrations.js";
 import {
   Announce as AnnounceModel,
   Follow,
+  FollowRequest,
   Following,
+  type IFollow,
+  type IPost,
   Like as LikeModel,
   Post,
+  Report,
   User,
 } from "./models.js";
+import {
+  noteFields,
+  storeRemoteNote,
+  toAnnounce,
+  toCreate,
+  toNote,
+} from "./notes.js";
+import {
+  afterCursor,
+  encodeCursor,
+  findLastCursor,
+  findPage,
+} from "./pagination.js";
+import { MongoKvStore, MongoMessageQueue } from "./store.js";
 
 const logger = getLogger("wendy");
 
+// Activities from blocked actors and domains are dropped before processing.
+// Delete is let through so that blocked actors can still retract content.
+async function fromBlocked(activity: Activity): Promise<boolean> {
+  if (!activity.actorId || !(await isBlocked(activity.actorId))) return false;
+  logger.info(
+    `Dropping ${activity.id?.href} from blocked ${activity.actorId.href}`,
+  );
+  return true;
+}
+
+// Finds the follow request of ours that an Accept or Reject responds to
+async function findOutgoingFollow(
+  ctx: InboxContext<unknown>,
+  response: Accept | Reject,
+) {
+  if (!response.actorId || !response.objectId) return null;
+  const following = response.actorId.href;
+
+  // Most servers echo the id of the Follow activity we sent
+  const byId = await Following.findOne({
+    following,
+    activityId: response.objectId.href,
+  }).exec();
+  if (byId) return byId;
+
+  const follow = await response.getObject({ suppressError: true });
+  if (!(follow instanceof FediFollow) || !follow.actorId) return null;
+  if (follow.objectId && follow.objectId.href !== following) return null;
+  if (ctx.parseUri(follow.actorId)?.type !== "actor") return null;
+  return await Following.findOne({
+    follower: follow.actorId.href,
+    following,
+  }).exec();
+}
+
+// Removes posts along with the likes and announces they received
+async function purgePosts(posts: IPost[]) {
+  if (posts.length === 0) return;
+  const ids = posts.map((post) => post._id);
+  const objects = ids.map((id) => String(id));
+  await LikeModel.deleteMany({ object: { $in: objects } });
+  await AnnounceModel.deleteMany({ object: { $in: objects } });
+  await Post.deleteMany({ _id: { $in: ids } });
+}
+
+watchIndexBuilds();
 await connectDB();
+await runMigrations();
 
-// Cache for in-memory keys
-const keyCache = new Map<
-  string,
-  Array<{ privateKey: CryptoKey; publicKey: CryptoKey }>
->();
+// Load persisted key pairs up front so remote servers always see the same keys
+for (const user of await User.find().exec()) {
+  await getKeyPairs(user);
+}
 
 const federation = createFederation({
-  kv: new MemoryKvStore(),
-  queue: new InProcessMessageQueue(),
+  kv: new MongoKvStore(),
+  queue: new MongoMessageQueue(),
 });
 
 federation
@@ -48,11 +122,14 @@ federation
     const keys = await ctx.getActorKeyPairs(identifier);
     // Fetch user from DB to get bio, avatar, header
     const user = await User.findOne({ username: identifier }).exec();
+    const retired = user ? await getRetiredKeys(user) : [];
+    const actorUri = ctx.getActorUri(identifier);
 
     const actor = new Person({
-      id: ctx.getActorUri(identifier),
+      id: actorUri,
       preferredUsername: identifier,
       name: user?.displayName || identifier,
+      manuallyApprovesFollowers: user?.manuallyApprovesFollowers ?? false,
       followers: ctx.getFollowersUri(identifier),
       following: ctx.getFollowingUri(identifier),
       inbox: ctx.getInboxUri(identifier),
@@ -60,8 +137,30 @@ federation
       endpoints: new Endpoints({
         sharedInbox: ctx.getInboxUri(),
       }),
-      publicKey: keys[0]?.cryptographicKey,
-      assertionMethods: keys.map((k) => k.multikey),
+      publicKeys: [
+        ...keys.slice(0, 1).map((k) => k.cryptographicKey),
+        ...retired
+          .filter((k) => k.type === "RSASSA-PKCS1-v1_5")
+          .map(
+            (k) =>
+              new CryptographicKey({
+                id: new URL(k.keyId, actorUri),
+                owner: actorUri,
+                publicKey: k.publicKey,
+              }),
+          ),
+      ],
+      assertionMethods: [
+        ...keys.map((k) => k.multikey),
+        ...retired.map(
+          (k) =>
+            new Multikey({
+              id: new URL(k.multikeyId, actorUri),
+              controller: actorUri,
+              publicKey: k.publicKey,
+            }),
+        ),
+      ],
       summary: user?.bio || undefined,
       icon:
         user?.avatarUrl &&
@@ -81,31 +180,20 @@ federation
   })
   .setKeyPairsDispatcher(async (ctx: Context<unknown>, identifier: string) => {
     logger.info(`Getting keys for identifier: ${identifier}`);
-
-    // Check if keys are already cached
-    const cachedKeys = keyCache.get(identifier);
-    if (cachedKeys) {
-      logger.info(`Using cached keys for ${identifier}`);
-      return cachedKeys;
-    }
-
-    // Generate both key types for cryptographic proofs
-    logger.info(`Generating new keys for ${identifier}`);
-    const rsaKeys = await generateCryptoKeyPair("RSASSA-PKCS1-v1_5");
-    const ed25519Keys = await generateCryptoKeyPair("Ed25519");
-
-    const keys = [rsaKeys, ed25519Keys];
-    keyCache.set(identifier, keys);
-
-    logger.info(`Generated and cached keys for ${identifier}: RSA and Ed25519`);
-
-    return keys;
+    const user = await User.findOne({ username: identifier }).exec();
+    if (!user) return [];
+    return await getKeyPairs(user);
   });
 
 // Handle incoming Follow and Undo(Follow) activities
 federation
   .setInboxListeners("/users/{identifier}/inbox", "/inbox")
+  // Remember processed activity ids (for a day, in the KV store) so the same
+  // activity delivered to both our personal and shared inbox, or relayed
+  // from several servers, is only handled once
+  .withIdempotency("global")
   .on(FediFollow, async (ctx, follow) => {
+    if (await fromBlocked(follow)) return;
     if (!follow.objectId || !follow.actorId) return;
     const parsed = ctx.parseUri(follow.objectId);
     if (!parsed || parsed.type !== "actor") return;
@@ -116,41 +204,72 @@ federation
 
     logger.info(`Received follow request from ${follower} to ${following}`);
 
-    // Upsert follower
-    await Follow.updateOne(
-      { following, follower },
-      {
-        $set: { following, follower },
-        $setOnInsert: { createdAt: new Date() },
-      },
-      { upsert: true },
-    );
-
-    // Accept the follow
     const actorObj = await follow.getActor(ctx);
     if (!actorObj) {
       logger.error(`Could not get actor for ${follow.actorId.href}`);
       return;
     }
+    await saveRemoteActor(actorObj);
+
+    const record = {
+      following,
+      follower,
+      inbox: actorObj.inboxId?.href,
+      sharedInbox: actorObj.endpoints?.sharedInbox?.href,
+      activityId: follow.id?.href,
+    };
+
+    // Locked accounts queue new followers for approval; existing followers
+    // re-sending a Follow are accepted again right away
+    const user = await User.findOne({ username: parsed.identifier }).exec();
+    if (
+      user?.manuallyApprovesFollowers &&
+      !(await Follow.exists({ following, follower }))
+    ) {
+      await FollowRequest.updateOne(
+        { following, follower },
+        { $set: record, $setOnInsert: { createdAt: new Date() } },
+        { upsert: true },
+      );
+      logger.info(`Queued follow request from ${follower} for approval`);
+      return;
+    }
 
-    const acceptId = new URL(`#accept-${Date.now()}`, following);
-    logger.info(`Sending Accept activity with ID: ${acceptId.href}`);
-
-    await ctx.sendActivity(
-      { identifier: parsed.identifier },
-      actorObj,
-      new Accept({
-        id: acceptId,
-        actor: follow.objectId,
-        object: follow,
-      }),
-    );
-
-    logger.info(
-      `Successfully sent Accept activity to ${actorObj.inboxId?.href || "unknown inbox"}`,
+    // Upsert follower along with where to deliver to them
+    await Follow.updateOne(
+      { following, follower },
+      { $set: record, $setOnInsert: { createdAt: new Date() } },
+      { upsert: true },
     );
+    await acceptFollow(ctx, parsed.identifier, record);
+  })
+  .on(Accept, async (ctx, accept) => {
+    if (await fromBlocked(accept)) return;
+    logger.info(`Received Accept activity: ${accept.id?.href}`);
+    const following = await findOutgoingFollow(ctx, accept);
+    if (!following) {
+      logger.info(`No pending follow matches Accept ${accept.id?.href}`);
+      return;
+    }
+    if (following.accepted) return;
+    following.accepted = true;
+    following.acceptedAt = new Date();
+    await following.save();
+    logger.info(`Follow of ${following.following} was accepted`);
+  })
+  .on(Reject, async (ctx, reject) => {
+    if (await fromBlocked(reject)) return;
+    logger.info(`Received Reject activity: ${reject.id?.href}`);
+    const following = await findOutgoingFollow(ctx, reject);
+    if (!following) {
+      logger.info(`No follow matches Reject ${reject.id?.href}`);
+      return;
+    }
+    await Following.deleteOne({ _id: following._id });
+    logger.info(`Follow of ${following.following} was rejected`);
   })
   .on(Like, async (ctx, like) => {
+    if (await fromBlocked(like)) return;
     if (!like.actorId || !like.objectId) return;
     logger.info(
       `Received Like activity from ${like.actorId.href} for ${like.objectId.href}`,
@@ -179,6 +298,7 @@ federation
     }
   })
   .on(Announce, async (ctx, announce) => {
+    if (await fromBlocked(announce)) return;
     if (!announce.actorId || !announce.objectId) return;
     logger.info(
       `Received Announce activity from ${announce.actorId.href} for ${announce.objectId.href}`,
@@ -209,6 +329,7 @@ federation
     }
   })
   .on(Undo, async (ctx, undo) => {
+    if (await fromBlocked(undo)) return;
     const object = await undo.getObject();
     if (!undo.actorId) return;
     // Handle Undo(Like)
@@ -263,10 +384,12 @@ federation
       const follower = undo.actorId.href;
       logger.info(`Received unfollow request from ${follower} to ${following}`);
       await Follow.deleteOne({ following, follower });
+      await FollowRequest.deleteOne({ following, follower });
       logger.info(`Removed follower ${follower} from ${following}`);
     }
   })
   .on(Create, async (ctx, create) => {
+    if (await fromBlocked(create)) return;
     logger.info(`Received Create activity: ${create.id?.href}`);
 
     const object = await create.getObject();
@@ -285,64 +408,106 @@ federation
       return;
     }
 
-    const content = object.content;
     const author = object.attributionId?.href || create.actorId?.href;
-
+    if (!author) {
+      logger.error(`Missing author for remote post ${object.id?.href}`);
+      return;
+    }
     logger.info(`Processing Note from author: ${author}`);
-    logger.info(`Note content: ${content?.substring(0, 100)}...`);
 
-    if (author && content) {
-      try {
-        // Convert Temporal.Instant to JavaScript Date for MongoDB
-        let publishedDate = new Date();
-        if (object.published) {
-          if (typeof object.published === "string") {
-            publishedDate = new Date(object.published);
-          } else if (object.published.epochMilliseconds) {
-            publishedDate = new Date(object.published.epochMilliseconds);
-          } else {
-            publishedDate = new Date(object.published.toString());
-          }
-        }
+    const actor = await create.getActor({ suppressError: true });
+    await storeRemoteNote(ctx, object, author, actor);
+  })
+  .on(Update, async (ctx, update) => {
+    if (await fromBlocked(update)) return;
+    logger.info(`Received Update activity: ${update.id?.href}`);
+    if (!update.actorId || !update.objectId) return;
+
+    const object = await update.getObject();
+    // An actor updating its own profile
+    if (isActor(object)) {
+      if (object.id?.href !== update.actorId.href) {
+        logger.warn(
+          `Ignoring Update of ${update.objectId.href} from ${update.actorId.href}`,
+        );
+        return;
+      }
+      await saveRemoteActor(object);
+      logger.info(`Refreshed remote actor ${update.actorId.href}`);
+      return;
+    }
 
-        // Extract remote author info from the author URL
-        let remoteAuthorName = author;
-        let remoteAuthorAvatar = "";
-        let remoteAuthorUrl = author;
-
-        // Try to extract a display name from the author URL
-        try {
-          const url = new URL(author);
-          const pathParts = url.pathname.split("/").filter(Boolean);
-          if (pathParts.length > 0) {
-            remoteAuthorName = pathParts[pathParts.length - 1];
-          }
-        } catch (e) {
-          // If URL parsing fails, use the full author as name
-          remoteAuthorName = author;
-        }
+    if (!(object instanceof Note)) {
+      logger.info(`Ignoring Update of non-Note object ${update.objectId.href}`);
+      return;
+    }
 
-        const post = await Post.create({
-          content,
-          author,
-          createdAt: publishedDate,
-          remote: true,
-          objectId: object.id?.href,
-          remoteAuthorName,
-          remoteAuthorAvatar,
-          remoteAuthorUrl,
-        });
+    const post = await Post.findOne({
+      remote: true,
+      objectId: update.objectId.href,
+    }).exec();
+    // Only the original author may edit a post
+    const attribution = object.attributionId?.href ?? update.actorId.href;
+    if (!post) {
+      // The Update overtook its Create; store the edited post now and let the
+      // Create be ignored when it arrives
+      if (attribution !== update.actorId.href) return;
+      const actor = await update.getActor({ suppressError: true });
+      await storeRemoteNote(ctx, object, attribution, actor);
+      return;
+    }
+    if (post.author !== update.actorId.href || post.author !== attribution) {
+      logger.warn(
+        `Ignoring Update of ${update.objectId.href} from ${update.actorId.href}, who is not its author`,
+      );
+      return;
+    }
 
-        logger.info(`Successfully stored remote post with ID: ${post._id}`);
-        logger.info(`Post author: ${post.author}, remote: ${post.remote}`);
-        logger.info(`Remote author name: ${post.remoteAuthorName}`);
-      } catch (error) {
-        logger.error(`Failed to store remote post: ${error}`);
-      }
-    } else {
-      logger.error(
-        `Missing author or content for remote post. Author: ${author}, Content: ${content ? "present" : "missing"}`,
+    // Edits delivered out of order must not overwrite a newer revision
+    if (
+      object.updated &&
+      post.updatedAt &&
+      object.updated.epochMilliseconds <= post.updatedAt.getTime()
+    ) {
+      logger.info(`Ignoring stale Update of ${update.objectId.href}`);
+      return;
+    }
+
+    const { content, summary, attachments } = await noteFields(object);
+    if (!content) return;
+    post.content = content;
+    post.summary = summary;
+    post.attachments = attachments;
+    post.updatedAt = object.updated
+      ? new Date(object.updated.epochMilliseconds)
+      : new Date();
+    await post.save();
+    logger.info(`Updated remote post ${post._id} (${update.objectId.href})`);
+  })
+  .on(Flag, async (ctx, flag) => {
+    if (await fromBlocked(flag)) return;
+    if (!flag.actorId) return;
+    const reporter = flag.actorId.href;
+    const targets = flag.objectIds.map((id) => id.href);
+    logger.info(`Received report from ${reporter} about ${targets.join(", ")}`);
+
+    const actor = await flag.getActor({ suppressError: true });
+    if (actor) await saveRemoteActor(actor);
+
+    const report = {
+      reporter,
+      targets,
+      comment: flag.content?.toString(),
+    };
+    if (flag.id) {
+      // Redelivered reports update the one already filed
+      await Report.updateOne(
+        { activityId: flag.id.href },
+        { $set: report, $setOnInsert: { createdAt: new Date() } },
+        { upsert: true },
       );
+    } else {
+      await Report.create(report);
     }
   })
   .on(Delete, async (ctx, del) => {
@@ -351,38 +516,122 @@ federation
     );
     logger.info(`Delete actor: ${del.actorId?.href || "unknown"}`);
     logger.info(`Delete object: ${del.objectId?.href || "unknown"}`);
-    // For now, just log the deletion. You could add cleanup logic here if desired.
-    // Respond with 202 Accepted
-    return ctx.res?.status(202);
+    if (!del.actorId || !del.objectId) return;
+    const actor = del.actorId.href;
+
+    // An actor deleting itself: forget everything we know about it
+    if (del.objectId.href === actor) {
+      const posts = await Post.find({ remote: true, author: actor }).exec();
+      await purgePosts(posts);
+      await LikeModel.deleteMany({ actor });
+      await AnnounceModel.deleteMany({ actor });
+      await Follow.deleteMany({ follower: actor });
+      await FollowRequest.deleteMany({ follower: actor });
+      await Following.deleteMany({ following: actor });
+      logger.info(`Purged ${posts.length} posts and relationships of ${actor}`);
+      return;
+    }
+
+    const post = await Post.findOne({
+      remote: true,
+      objectId: del.objectId.href,
+    }).exec();
+    if (!post) {
+      logger.info(`No stored post for deleted object ${del.objectId.href}`);
+      return;
+    }
+    // Only the author may delete a post
+    if (post.author !== actor) {
+      logger.warn(
+        `Ignoring Delete of ${del.objectId.href} from ${actor}, who is not its author`,
+      );
+      return;
+    }
+    await purgePosts([post]);
+    logger.info(`Deleted remote post ${post._id} (${del.objectId.href})`);
   });
 
+// Followers and following are listed in pages of this size
+const FOLLOWS_PAGE_SIZE = 20;
+
+// Whether the owner hides who they follow and who follows them.  Only the
+// items are hidden; the counters stay public.
+async function collectionsHidden(identifier: string): Promise<boolean> {
+  const user = await User.findOne({ username: identifier }).exec();
+  return !!user?.hideCollections;
+}
+
+// Followers on blocked domains are left out so nothing is delivered to them
+async function followersFilter(ctx: Context<unknown>, identifier: string) {
+  return {
+    following: ctx.getActorUri(identifier).href,
+    ...(await unblockedFilter("follower")),
+  };
+}
+
 // Expose followers collection for ActivityPub
 federation
   .setFollowersDispatcher(
     "/users/{identifier}/followers",
     async (ctx, identifier, cursor) => {
-      const following = ctx.getActorUri(identifier).href;
-
-      const docs = await Follow.find({ following })
-        .sort({ createdAt: -1 })
-        .exec();
+      const filter = await followersFilter(ctx, identifier);
+
+      // Without a cursor every follower is returned at once; Fedify asks for
+      // that when delivering to followers, never for a request
+      let docs: IFollow[];
+      let nextCursor: string | null = null;
+      if (cursor == null) {
+        docs = await Follow.find(filter).sort({ createdAt: -1 }).exec();
+      } else {
+        if (await collectionsHidden(identifier)) return { items: [] };
+        const page = await findPage(Follow, filter, cursor, {
+          limit: FOLLOWS_PAGE_SIZE,
+        });
+        if (!page) return null;
+        docs = page.items;
+        nextCursor = page.nextCursor;
+      }
 
-      const items: Recipient[] = docs.map(
-        (f: import("./models.js").IFollow) => {
-          const inboxUrl = `${f.follower}/inbox`;
-          return {
-            id: new URL(f.follower),
-            inboxId: new URL(inboxUrl),
-          };
-        },
-      );
+      // Followers stored before we recorded inboxes are resolved from the
+      // cached or freshly fetched actor, and their inboxes saved for next time
+      const items: Recipient[] = [];
+      for (const f of docs) {
+        const recipient = f.inbox
+          ? toRecipient(f.follower, f.inbox, f.sharedInbox)
+          : await getRecipient(ctx, f.follower);
+        if (!recipient) {
+          logger.error(`Could not resolve the inbox of follower ${f.follower}`);
+          continue;
+        }
+        if (!f.inbox) {
+          await Follow.updateOne(
+            { _id: f._id },
+            {
+              $set: {
+                inbox: recipient.inboxId?.href,
+                sharedInbox: recipient.endpoints?.sharedInbox?.href,
+              },
+            },
+          ).exec();
+        }
+        items.push(recipient);
+      }
 
-      return { items };
+      return { items, nextCursor };
     },
   )
   .setCounter(async (ctx, identifier) => {
     const following = ctx.getActorUri(identifier).href;
     return await Follow.countDocuments({ following });
+  })
+  .setFirstCursor(() => "")
+  .setLastCursor(async (ctx, identifier) => {
+    if (await collectionsHidden(identifier)) return null;
+    return await findLastCursor(
+      Follow,
+      await followersFilter(ctx, identifier),
+      { limit: FOLLOWS_PAGE_SIZE },
+    );
   });
 
 // Expose following collection for ActivityPub
@@ -390,19 +639,31 @@ federation
   .setFollowingDispatcher(
     "/users/{identifier}/following",
     async (ctx, identifier, cursor) => {
+      if (await collectionsHidden(identifier)) return { items: [] };
       const follower = ctx.getActorUri(identifier).href;
-      const docs = await Following.find({ follower })
-        .sort({ createdAt: -1 })
-        .exec();
-      const items = docs.map(
-        (f: import("./models.js").IFollowing) => new URL(f.following),
-      );
-      return { items };
+      const page = await findPage(Following, { follower }, cursor, {
+        limit: FOLLOWS_PAGE_SIZE,
+      });
+      if (!page) return null;
+      return {
+        items: page.items.map((f) => new URL(f.following)),
+        nextCursor: page.nextCursor,
+      };
     },
   )
   .setCounter(async (ctx, identifier) => {
     const follower = ctx.getActorUri(identifier).href;
     return await Following.countDocuments({ follower });
+  })
+  .setFirstCursor(() => "")
+  .setLastCursor(async (ctx, identifier) => {
+    if (await collectionsHidden(identifier)) return null;
+    const follower = ctx.getActorUri(identifier).href;
+    return await findLastCursor(
+      Following,
+      { follower },
+      { limit: FOLLOWS_PAGE_SIZE },
+    );
   });
 
 // Expose posts as ActivityPub Note objects
@@ -433,14 +694,7 @@ federation.setObjectDispatcher(
         return null;
       }
 
-      return new Note({
-        id: ctx.getObjectUri(Note, values),
-        attribution: ctx.getActorUri(values.identifier),
-        to: PUBLIC_COLLECTION,
-        content: post.content,
-        mediaType: "text/html",
-        url: ctx.getObjectUri(Note, values),
-      });
+      return await toNote(ctx, post);
     } catch (error) {
       logger.error(`Error fetching post ${values.id}: ${error}`);
       return null;
@@ -448,34 +702,147 @@ federation.setObjectDispatcher(
   },
 );
 
-// Expose outbox for ActivityPub
-federation.setOutboxDispatcher(
-  "/users/{identifier}/outbox",
-  async (ctx, identifier, cursor) => {
-    const posts = await Post.find({ author: identifier })
-      .sort({ createdAt: -1 })
-      .limit(20)
-      .exec();
-
-    const activities = posts.map((post) => {
-      return new Create({
-        id: new URL(`#create-${post._id}`, ctx.getActorUri(identifier).href),
-        actor: ctx.getActorUri(identifier),
-        object: new Note({
-          id: ctx.getObjectUri(Note, { identifier, id: post._id.toString() }),
-          attribution: ctx.getActorUri(identifier),
-          to: PUBLIC_COLLECTION,
-          content: post.content,
-          mediaType: "text/html",
-          // Don't set published field for now to avoid Temporal issues
-        }),
-        // Don't set published field for now to avoid Temporal issues
+// Expose the replies to each of our posts, local and remote, so other
+// servers can discover whole conversations
+const REPLIES_PAGE_SIZE = 20;
+
+federation
+  .setCollectionDispatcher(
+    "replies",
+    Note,
+    "/users/{identifier}/posts/{id}/replies",
+    async (ctx, values, cursor) => {
+      if (values.id.length !== 24) return null;
+      const post = await Post.findOne({
+        _id: values.id,
+        author: values.identifier,
+      }).exec();
+      if (!post) return null;
+
+      const page = await findPage(
+        Post,
+        {
+          replyTo: String(post._id),
+          ...(await unblockedPostFilter()),
+        },
+        cursor,
+        { limit: REPLIES_PAGE_SIZE, order: "asc" },
+      );
+      if (!page) return null;
+
+      // Replies are listed by id; servers dereference the ones they lack
+      const items = page.items.flatMap((reply) => {
+        if (!reply.remote) {
+          return [
+            new Note({
+              id: ctx.getObjectUri(Note, {
+                identifier: reply.author,
+                id: String(reply._id),
+              }),
+            }),
+          ];
+        }
+        return reply.objectId
+          ? [new Note({ id: new URL(reply.objectId) })]
+          : [];
       });
+      return { items, nextCursor: page.nextCursor };
+    },
+  )
+  .setCounter(async (ctx, values) => {
+    if (values.id.length !== 24) return null;
+    return await Post.countDocuments({
+      replyTo: values.id,
+      ...(await unblockedPostFilter()),
     });
+  })
+  .setFirstCursor(() => "");
 
-    return { items: activities };
-  },
-);
+// Expose outbox for ActivityPub: our posts and reposts, newest first, so
+// other servers can backfill our history
+const OUTBOX_PAGE_SIZE = 20;
+
+federation
+  .setOutboxDispatcher(
+    "/users/{identifier}/outbox",
+    async (ctx, identifier, cursor) => {
+      const after = afterCursor(cursor, "desc");
+      if (after == null) return null;
+      const actorUri = ctx.getActorUri(identifier);
+      const sort = { createdAt: -1, _id: -1 } as const;
+
+      // Posts and reposts live in separate collections, so take a page of
+      // each after the cursor and merge them by date
+      const posts = await Post.find({
+        $and: [{ author: identifier, remote: { $ne: true } }, after],
+      })
+        .sort(sort)
+        .limit(OUTBOX_PAGE_SIZE + 1)
+        .exec();
+      const announces = await AnnounceModel.find({
+        $and: [{ actor: actorUri.href }, after],
+      })
+        .sort(sort)
+        .limit(OUTBOX_PAGE_SIZE + 1)
+        .exec();
+      const entries = [
+        ...posts.map((post) => ({ doc: post, post, announce: undefined })),
+        ...announces.map((announce) => ({
+          doc: announce,
+          post: undefined,
+          announce,
+        })),
+      ].sort(
+        (a, b) =>
+          b.doc.createdAt.getTime() - a.doc.createdAt.getTime() ||
+          String(b.doc._id).localeCompare(String(a.doc._id)),
+      );
+      const page = entries.slice(0, OUTBOX_PAGE_SIZE);
+
+      // Reposted posts, to find the object id of each repost
+      const repostedIds = page.flatMap(({ announce }) =>
+        announce?.object.length === 24 ? [announce.object] : [],
+      );
+      const reposted = new Map(
+        (await Post.find({ _id: { $in: repostedIds } }).exec()).map((post) => [
+          String(post._id),
+          post,
+        ]),
+      );
+
+      const items: Activity[] = [];
+      for (const { post, announce } of page) {
+        if (post) {
+          items.push(await toCreate(ctx, post));
+          continue;
+        }
+        const target = reposted.get(announce.object);
+        const activity =
+          target && toAnnounce(ctx, identifier, announce, target);
+        if (activity) items.push(activity);
+      }
+
+      const last = page[page.length - 1];
+      return {
+        items,
+        nextCursor:
+          entries.length > OUTBOX_PAGE_SIZE && last
+            ? encodeCursor(last.doc)
+            : null,
+      };
+    },
+  )
+  .setCounter(async (ctx, identifier) => {
+    const posts = await Post.countDocuments({
+      author: identifier,
+      remote: { $ne: true },
+    });
+    const announces = await AnnounceModel.countDocuments({
+      actor: ctx.getActorUri(identifier).href,
+    });
+    return posts + announces;
+  })
+  .setFirstCursor(() => "");
 
 // Set up NodeInfo dispatcher
 federation.setNodeInfoDispatcher("/.well-known/nodeinfo/2.0", async (ctx) => {
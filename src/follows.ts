@@ -0,0 +1,63 @@
+import { Accept, type Context, Follow, Reject } from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { getRecipient, toRecipient } from "./actors.js";
+
+const logger = getLogger("wendy");
+
+// What we know about an incoming follow, whether approved or still pending
+export interface IncomingFollow {
+  follower: string;
+  following: string;
+  inbox?: string;
+  sharedInbox?: string;
+  activityId?: string;
+}
+
+async function respond(
+  ctx: Context<unknown>,
+  identifier: string,
+  follow: IncomingFollow,
+  type: "accept" | "reject",
+) {
+  const recipient =
+    toRecipient(follow.follower, follow.inbox, follow.sharedInbox) ??
+    (await getRecipient(ctx, follow.follower));
+  if (!recipient) {
+    logger.warn(`No known inbox for ${follow.follower}, cannot ${type}`);
+    return;
+  }
+
+  const values = {
+    id: new URL(`#${type}-${Date.now()}`, follow.following),
+    actor: new URL(follow.following),
+    object: new Follow({
+      id: follow.activityId ? new URL(follow.activityId) : null,
+      actor: new URL(follow.follower),
+      object: new URL(follow.following),
+    }),
+  };
+  await ctx.sendActivity(
+    { identifier },
+    recipient,
+    type === "accept" ? new Accept(values) : new Reject(values),
+  );
+  logger.info(`Sent ${type} of follow to ${recipient.inboxId?.href}`);
+}
+
+// Tells the follower's server that we accepted the follow
+export async function acceptFollow(
+  ctx: Context<unknown>,
+  identifier: string,
+  follow: IncomingFollow,
+) {
+  await respond(ctx, identifier, follow, "accept");
+}
+
+// Tells the follower's server that we rejected (or removed) the follow
+export async function rejectFollow(
+  ctx: Context<unknown>,
+  identifier: string,
+  follow: IncomingFollow,
+) {
+  await respond(ctx, identifier, follow, "reject");
+}
@@ -0,0 +1,146 @@
+import { exportJwk, generateCryptoKeyPair, importJwk } from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { type IKey, type IUser, Key } from "./models.js";
+
+const logger = getLogger("wendy");
+
+export const KEY_TYPES = ["RSASSA-PKCS1-v1_5", "Ed25519"] as const;
+
+export type KeyType = (typeof KEY_TYPES)[number];
+
+// How long a retired key stays published after a rotation by default
+export const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+// Active key pairs imported from the database, by username
+const keyCache = new Map<string, CryptoKeyPair[]>();
+
+// The fragments of the IDs Fedify gives an active key of the given type.  It
+// numbers key pairs by their position in the list getKeyPairs returns, so they
+// only depend on the type.
+export function keyIdsFor(type: KeyType) {
+  const i = KEY_TYPES.indexOf(type);
+  return {
+    key_id: i === 0 ? "#main-key" : `#key-${i + 1}`,
+    multikey_id: `#multikey-${i + 1}`,
+  };
+}
+
+// Generates a key pair of the given type and stores it as JWK.  If another
+// request stored one concurrently, the stored one wins so that every process
+// publishes the same key.
+async function createKeyPair(user: IUser, type: KeyType) {
+  const pair = await generateCryptoKeyPair(type);
+  try {
+    return await storeKeyPair(user, type, pair);
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+    return await Key.findOne({ user_id: user._id, type, retired: null }).exec();
+  }
+}
+
+async function storeKeyPair(user: IUser, type: KeyType, pair: CryptoKeyPair) {
+  return await Key.create({
+    user_id: user._id,
+    type,
+    ...keyIdsFor(type),
+    private_key: JSON.stringify(await exportJwk(pair.privateKey)),
+    public_key: JSON.stringify(await exportJwk(pair.publicKey)),
+  });
+}
+
+async function importKeyPair(key: IKey): Promise<CryptoKeyPair> {
+  return {
+    privateKey: await importJwk(JSON.parse(key.private_key), "private"),
+    publicKey: await importJwk(JSON.parse(key.public_key), "public"),
+  };
+}
+
+// Returns the user's active RSA and Ed25519 key pairs, generating and
+// persisting any that don't exist yet
+export async function getKeyPairs(user: IUser): Promise<CryptoKeyPair[]> {
+  const cached = keyCache.get(user.username);
+  if (cached) return cached;
+
+  const pairs: CryptoKeyPair[] = [];
+  for (const type of KEY_TYPES) {
+    let key = await Key.findOne({ user_id: user._id, type, retired: null })
+      .sort({ created: -1 })
+      .exec();
+    if (!key) {
+      logger.info(`Generating new ${type} key for ${user.username}`);
+      key = await createKeyPair(user, type);
+    }
+    if (key) pairs.push(await importKeyPair(key));
+  }
+
+  keyCache.set(user.username, pairs);
+  logger.info(`Loaded ${pairs.length} key pairs for ${user.username}`);
+  return pairs;
+}
+
+// Returns the public keys of the user's retired key pairs that are still
+// within their grace period, newest first, with the IDs they had while they
+// were active
+export async function getRetiredKeys(user: IUser) {
+  const keys = await Key.find({
+    user_id: user._id,
+    retired: { $ne: null },
+    expires: { $gt: new Date() },
+  })
+    .sort({ retired: -1 })
+    .exec();
+  return await Promise.all(
+    keys.map(async (key) => ({
+      type: key.type,
+      keyId: key.key_id,
+      multikeyId: key.multikey_id,
+      publicKey: await importJwk(JSON.parse(key.public_key), "public"),
+    })),
+  );
+}
+
+// Retires the user's active key pairs and generates new ones.  Retired keys
+// are no longer used for signing but stay published for `graceDays` so that
+// signatures made with them can still be verified while remote servers
+// refresh their copy of our actor.  If a new
+// key can't be stored, the old keys are reactivated and an error is thrown,
+// so the actor is never left without an active key.
+export async function rotateKeyPairs(
+  user: IUser,
+  graceDays: number = DEFAULT_GRACE_PERIOD_DAYS,
+): Promise<IKey[]> {
+  const pairs = await Promise.all(
+    KEY_TYPES.map((type) => generateCryptoKeyPair(type)),
+  );
+  const active = await Key.find({ user_id: user._id, retired: null }).exec();
+  const activeIds = active.map((key) => key._id);
+
+  const retired = new Date();
+  const expires = new Date(retired.getTime() + graceDays * 24 * 60 * 60_000);
+  await Key.updateMany(
+    { _id: { $in: activeIds } },
+    { $set: { retired, expires } },
+  ).exec();
+  keyCache.delete(user.username);
+
+  const created: IKey[] = [];
+  try {
+    for (const [i, type] of KEY_TYPES.entries()) {
+      created.push(await storeKeyPair(user, type, pairs[i]));
+    }
+  } catch (error) {
+    await Key.deleteMany({ _id: { $in: created.map((key) => key._id) } });
+    await Key.updateMany(
+      { _id: { $in: activeIds } },
+      { $set: { retired: null }, $unset: { expires: "" } },
+    ).exec();
+    keyCache.delete(user.username);
+    throw new Error(
+      `Could not store new keys for ${user.username}, kept the current ones: ${error}`,
+    );
+  }
+  logger.info(`Retired active keys for ${user.username} until ${expires}`);
+
+  await getKeyPairs(user);
+  return await Key.find({ user_id: user._id }).sort({ created: -1 }).exec();
+}
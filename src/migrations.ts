@@ -0,0 +1,172 @@
+import { getLogger } from "@logtape/logtape";
+import mongoose, { type Model } from "mongoose";
+import { KEY_TYPES, keyIdsFor } from "./keys.js";
+import {
+  Announce,
+  Key,
+  Like,
+  Migration,
+  Post,
+  PostRevision,
+} from "./models.js";
+
+const logger = getLogger("wendy");
+
+interface MigrationStep {
+  name: string;
+  up: () => Promise<void>;
+}
+
+// Returns the indexes of a model's collection, or none if the collection
+// doesn't exist yet
+async function existingIndexes<T>(model: Model<T>) {
+  try {
+    return await model.collection.indexes();
+  } catch (error) {
+    if ((error as { code?: number }).code === 26) return [];
+    throw error;
+  }
+}
+
+// Drops an index whose options no longer match the schema.  Mongoose never
+// changes the options of an existing index, so the schema's version can only
+// be built once the old one is gone.
+async function dropStaleIndex<T>(
+  model: Model<T>,
+  name: string,
+  isStale: (index: Record<string, unknown>) => boolean,
+) {
+  const index = (await existingIndexes(model)).find((i) => i.name === name);
+  if (index && isStale(index)) {
+    logger.info(`Dropping outdated index ${name} on ${model.modelName}`);
+    await model.collection.dropIndex(name);
+  }
+}
+
+// Moves likes or announces of duplicate posts to the post we keep, dropping
+// those the kept post already has from the same actor
+async function moveReactions(
+  model: typeof Like | typeof Announce,
+  from: string[],
+  to: string,
+) {
+  for (const reaction of await model.find({ object: { $in: from } }).exec()) {
+    try {
+      await model.updateOne({ _id: reaction._id }, { $set: { object: to } });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+      await model.deleteOne({ _id: reaction._id });
+    }
+  }
+}
+
+// Merges remote posts stored more than once under the same object id into the
+// oldest copy, so that the unique index on `objectId` can be built
+async function mergeDuplicatePosts() {
+  const groups = await Post.aggregate<{ _id: string; ids: unknown[] }>([
+    { $match: { objectId: { $type: "string" } } },
+    { $sort: { _id: 1 } },
+    {
+      $group: { _id: "$objectId", ids: { $push: "$_id" }, count: { $sum: 1 } },
+    },
+    { $match: { count: { $gt: 1 } } },
+  ]);
+  for (const group of groups) {
+    const [keep, ...duplicates] = group.ids.map(String);
+    await Post.updateMany(
+      { replyTo: { $in: duplicates } },
+      { $set: { replyTo: keep } },
+    );
+    await moveReactions(Like, duplicates, keep);
+    await moveReactions(Announce, duplicates, keep);
+    await PostRevision.deleteMany({ post: { $in: duplicates } });
+    await Post.deleteMany({ _id: { $in: duplicates } });
+  }
+  logger.info(`Merged ${groups.length} remote posts stored more than once`);
+}
+
+// Logs indexes that fail to build.  Mongoose builds them in the background
+// and otherwise only reports failures through this event.
+export function watchIndexBuilds() {
+  for (const name of mongoose.modelNames()) {
+    mongoose.model(name).on("index", (error?: Error) => {
+      if (error) logger.error(`Failed to build indexes of ${name}: ${error}`);
+    });
+  }
+}
+
+// One-off changes to existing data, applied in order.  Each is recorded in the
+// Migration collection once it has succeeded, so it runs once per database.
+const migrations: MigrationStep[] = [
+  {
+    // Keys used to be unique per user and type; since rotation keeps retired
+    // keys around, only active keys may be unique
+    name: "partial-active-key-index",
+    up: async () => {
+      await dropStaleIndex(
+        Key,
+        "user_id_1_type_1",
+        (index) => !index.partialFilterExpression,
+      );
+      await Key.createIndexes();
+    },
+  },
+  {
+    // Redelivered activities used to store the same remote post repeatedly,
+    // which keeps the unique index on `objectId` from being built
+    name: "unique-remote-post-object-id",
+    up: async () => {
+      await mergeDuplicatePosts();
+      await Post.createIndexes();
+    },
+  },
+  {
+    // Domain blocks filter posts on `host`, which older remote posts lack
+    name: "remote-post-host",
+    up: async () => {
+      let updated = 0;
+      for await (const post of Post.find({
+        remote: true,
+        host: { $exists: false },
+      }).cursor()) {
+        try {
+          post.host = new URL(post.author).hostname;
+        } catch {
+          continue;
+        }
+        await post.save();
+        updated++;
+      }
+      logger.info(`Recorded the host of ${updated} remote posts`);
+    },
+  },
+  {
+    // Retired keys are published under the IDs they had while active, which
+    // keys created before rotation existed don't record
+    name: "key-ids",
+    up: async () => {
+      for (const type of KEY_TYPES) {
+        await Key.updateMany(
+          { type, key_id: { $exists: false } },
+          { $set: keyIdsFor(type) },
+        ).exec();
+      }
+    },
+  },
+];
+
+// Applies pending migrations.  A failing migration stops startup rather than
+// letting the app run against data it doesn't expect.
+export async function runMigrations() {
+  for (const migration of migrations) {
+    if (await Migration.exists({ name: migration.name })) continue;
+    logger.info(`Running migration ${migration.name}`);
+    try {
+      await migration.up();
+    } catch (error) {
+      logger.error(`Migration ${migration.name} failed: ${error}`);
+      throw error;
+    }
+    await Migration.create({ name: migration.name });
+  }
+}
@@ -1,4 +1,4 @@
-import { type Document, Schema, model } from "mongoose";
+import { type Document, Schema, type Types, model } from "mongoose";
 
 export interface IUser extends Document {
   username: string;
@@ -7,6 +7,8 @@ export interface IUser extends Document {
   avatarUrl?: string;
   headerUrl?: string;
   passwordHash: string;
+  manuallyApprovesFollowers?: boolean; // locked account: follows need approval
+  hideCollections?: boolean; // hide who we follow and who follows us
 }
 
 const UserSchema = new Schema<IUser>({
@@ -16,55 +18,152 @@ const UserSchema = new Schema<IUser>({
   avatarUrl: { type: String },
   headerUrl: { type: String },
   passwordHash: { type: String, required: true },
+  manuallyApprovesFollowers: { type: Boolean, default: false },
+  hideCollections: { type: Boolean, default: false },
 });
 
 export const User = model<IUser>("User", UserSchema);
 
+export interface IAttachment {
+  url: string;
+  mediaType?: string;
+  name?: string; // alt text
+}
+
 export interface IPost extends Document {
   content: string;
+  summary?: string; // content warning
+  attachments?: IAttachment[];
   createdAt: Date;
+  updatedAt?: Date; // set when the post has been edited
   author: string; // username or actor URL for remote posts
+  host?: string; // hostname of a remote post's author, for domain blocks
   remote?: boolean; // whether this is a remote post
   objectId?: string; // ActivityPub object ID for remote posts
   replyTo?: string; // parent post ID for threading
+  inReplyTo?: string; // object URI a remote post replies to
   // Remote author info (for remote posts)
   remoteAuthorName?: string;
   remoteAuthorAvatar?: string;
   remoteAuthorUrl?: string;
 }
 
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    url: { type: String, required: true },
+    mediaType: { type: String },
+    name: { type: String },
+  },
+  { _id: false },
+);
+
 const PostSchema = new Schema<IPost>({
   content: { type: String, required: true },
+  summary: { type: String },
+  attachments: { type: [AttachmentSchema], default: undefined },
   createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
   author: { type: String, required: true },
+  host: { type: String },
   remote: { type: Boolean, default: false },
   objectId: { type: String },
   replyTo: { type: String, required: false },
+  inReplyTo: { type: String },
   // Remote author info
   remoteAuthorName: { type: String },
   remoteAuthorAvatar: { type: String },
   remoteAuthorUrl: { type: String },
 });
 
+// A remote object is stored at most once, however often it is delivered
+PostSchema.index(
+  { objectId: 1 },
+  { unique: true, partialFilterExpression: { objectId: { $type: "string" } } },
+);
+
+PostSchema.index({ replyTo: 1 });
+PostSchema.index({ inReplyTo: 1 });
+PostSchema.index({ host: 1 });
+
 export const Post = model<IPost>("Post", PostSchema);
 
+// Earlier versions of our own posts, kept when a post is edited
+export interface IPostRevision extends Document {
+  post: string; // id of the edited post
+  content: string;
+  summary?: string;
+  createdAt: Date; // when this version was published
+  replacedAt: Date; // when an edit replaced it
+}
+
+const PostRevisionSchema = new Schema<IPostRevision>({
+  post: { type: String, required: true },
+  content: { type: String, required: true },
+  summary: { type: String },
+  createdAt: { type: Date, required: true },
+  replacedAt: { type: Date, default: Date.now },
+});
+
+PostRevisionSchema.index({ post: 1, createdAt: -1 });
+
+export const PostRevision = model<IPostRevision>(
+  "PostRevision",
+  PostRevisionSchema,
+);
+
 export interface IFollow extends Document {
   follower: string; // actor URL
   following: string; // actor URL
+  inbox?: string; // follower's inbox URL
+  sharedInbox?: string; // follower server's shared inbox URL
+  activityId?: string; // id of the Follow activity we accepted
   createdAt: Date;
 }
 
 const FollowSchema = new Schema<IFollow>({
   follower: { type: String, required: true },
   following: { type: String, required: true },
+  inbox: { type: String },
+  sharedInbox: { type: String },
+  activityId: { type: String },
   createdAt: { type: Date, default: Date.now },
 });
 
 export const Follow = model<IFollow>("Follow", FollowSchema);
 
-export interface IFollowing extends Document {
+// Incoming follows waiting for the owner's approval (locked accounts only)
+export interface IFollowRequest extends Document {
   follower: string; // actor URL
   following: string; // actor URL
+  inbox?: string; // follower's inbox URL
+  sharedInbox?: string; // follower server's shared inbox URL
+  activityId?: string; // id of the Follow activity to answer
+  createdAt: Date;
+}
+
+const FollowRequestSchema = new Schema<IFollowRequest>({
+  follower: { type: String, required: true },
+  following: { type: String, required: true },
+  inbox: { type: String },
+  sharedInbox: { type: String },
+  activityId: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+FollowRequestSchema.index({ follower: 1, following: 1 }, { unique: true });
+
+export const FollowRequest = model<IFollowRequest>(
+  "FollowRequest",
+  FollowRequestSchema,
+);
+
+export interface IFollowing extends Document {
+  follower: string; // actor URL
+  following: string; // canonical actor URL
+  inbox?: string; // followed actor's inbox URL
+  sharedInbox?: string; // followed actor's shared inbox URL
+  activityId?: string; // id of the Follow activity we last sent
+  requestedAt?: Date; // when we last sent the Follow activity
   accepted: boolean;
   acceptedAt?: Date;
   createdAt: Date;
@@ -73,6 +172,10 @@ export interface IFollowing extends Document {
 const FollowingSchema = new Schema<IFollowing>({
   follower: { type: String, required: true },
   following: { type: String, required: true },
+  inbox: { type: String },
+  sharedInbox: { type: String },
+  activityId: { type: String },
+  requestedAt: { type: Date },
   accepted: { type: Boolean, default: false },
   acceptedAt: { type: Date },
   createdAt: { type: Date, default: Date.now },
@@ -81,26 +184,38 @@ const FollowingSchema = new Schema<IFollowing>({
 export const Following = model<IFollowing>("Following", FollowingSchema);
 
 export interface IKey extends Document {
-  user_id: number;
+  user_id: Types.ObjectId; // owning User document
   type: "RSASSA-PKCS1-v1_5" | "Ed25519";
+  key_id: string; // fragment of the key's ID in the actor, e.g. "#main-key"
+  multikey_id: string; // fragment of the key's ID in assertionMethods
   private_key: string; // JWK format
   public_key: string; // JWK format
   created: Date;
+  retired: Date | null; // when a new key replaced this one
+  expires?: Date; // end of the grace period during which a retired key stays published
 }
 
 const KeySchema = new Schema<IKey>({
-  user_id: { type: Number, required: true },
+  user_id: { type: Schema.Types.ObjectId, ref: "User", required: true },
   type: {
     type: String,
     required: true,
     enum: ["RSASSA-PKCS1-v1_5", "Ed25519"],
   },
+  key_id: { type: String, required: true },
+  multikey_id: { type: String, required: true },
   private_key: { type: String, required: true },
   public_key: { type: String, required: true },
   created: { type: Date, default: Date.now },
+  retired: { type: Date, default: null },
+  expires: { type: Date },
 });
 
-KeySchema.index({ user_id: 1, type: 1 }, { unique: true });
+// Only one active (non-retired) key per user and type
+KeySchema.index(
+  { user_id: 1, type: 1 },
+  { unique: true, partialFilterExpression: { retired: { $type: "null" } } },
+);
 
 export const Key = model<IKey>("Key", KeySchema);
 
@@ -137,3 +252,177 @@ const AnnounceSchema = new Schema<IAnnounce>({
 AnnounceSchema.index({ actor: 1, object: 1 }, { unique: true });
 
 export const Announce = model<IAnnounce>("Announce", AnnounceSchema);
+
+export interface IKvEntry extends Document {
+  key: string; // JSON-encoded KvKey
+  parts: string[]; // individual key parts for prefix listing
+  value: string; // JSON-encoded value
+  expiresAt?: Date;
+}
+
+const KvEntrySchema = new Schema<IKvEntry>({
+  key: { type: String, required: true, unique: true },
+  parts: { type: [String], required: true },
+  value: { type: String, required: true },
+  expiresAt: { type: Date },
+});
+
+// Let MongoDB purge expired entries on its own
+KvEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const KvEntry = model<IKvEntry>("KvEntry", KvEntrySchema);
+
+export interface IQueueMessage extends Document {
+  channel?: string; // unset for Fedify's own queue
+  message: string; // JSON-encoded message
+  deliverAt: Date; // earliest time the message may be processed
+  lockedUntil?: Date; // set while a worker is processing the message
+  createdAt: Date;
+}
+
+const QueueMessageSchema = new Schema<IQueueMessage>({
+  channel: { type: String },
+  message: { type: String, required: true },
+  deliverAt: { type: Date, required: true, default: Date.now },
+  lockedUntil: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+QueueMessageSchema.index({ channel: 1, deliverAt: 1, lockedUntil: 1 });
+
+export const QueueMessage = model<IQueueMessage>(
+  "QueueMessage",
+  QueueMessageSchema,
+);
+
+export interface IRemoteActor extends Document {
+  uri: string; // actor URL
+  name?: string;
+  preferredUsername?: string;
+  handle?: string; // @username@domain
+  url?: string; // human-readable profile page
+  avatarUrl?: string;
+  headerUrl?: string;
+  inbox?: string;
+  sharedInbox?: string;
+  fetchedAt: Date; // last time we dereferenced or received the actor
+  updatedAt: Date; // last time the stored profile changed
+}
+
+const RemoteActorSchema = new Schema<IRemoteActor>({
+  uri: { type: String, required: true, unique: true },
+  name: { type: String },
+  preferredUsername: { type: String },
+  handle: { type: String },
+  url: { type: String },
+  avatarUrl: { type: String },
+  headerUrl: { type: String },
+  inbox: { type: String },
+  sharedInbox: { type: String },
+  fetchedAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+export const RemoteActor = model<IRemoteActor>(
+  "RemoteActor",
+  RemoteActorSchema,
+);
+
+export const BLOCK_SEVERITIES = ["suspend", "silence"] as const;
+
+export type BlockSeverity = (typeof BLOCK_SEVERITIES)[number];
+
+// Blocked remote actors and whole domains.  Suspended domains are cut off
+// completely; silenced ones still federate but are hidden from the timeline.
+export interface IBlock extends Document {
+  type: "actor" | "domain";
+  target: string; // actor URL, or lowercase hostname for domain blocks
+  severity: BlockSeverity; // always "suspend" for actor blocks
+  rejectMedia: boolean; // carried over from imported blocklists
+  publicComment?: string; // reason shown in exported blocklists
+  activityId?: string; // id of the Block activity we sent (actor blocks)
+  createdAt: Date;
+}
+
+const BlockSchema = new Schema<IBlock>({
+  type: { type: String, enum: ["actor", "domain"], required: true },
+  target: { type: String, required: true },
+  severity: { type: String, enum: BLOCK_SEVERITIES, default: "suspend" },
+  rejectMedia: { type: Boolean, default: false },
+  publicComment: { type: String },
+  activityId: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+BlockSchema.index({ type: 1, target: 1 }, { unique: true });
+
+export const Block = model<IBlock>("Block", BlockSchema);
+
+export const MUTE_TYPES = ["actor", "domain", "keyword"] as const;
+
+export type MuteType = (typeof MUTE_TYPES)[number];
+
+// Timeline filters.  Muted posts are either hidden or collapsed behind a
+// "filtered" warning; the remote side is never told.
+export interface IMute extends Document {
+  type: MuteType;
+  target: string; // actor URL, hostname, or keyword/pattern
+  regex: boolean; // keyword filters only: treat `target` as a pattern
+  action: "hide" | "warn";
+  expiresAt?: Date; // unset for permanent mutes
+  createdAt: Date;
+}
+
+const MuteSchema = new Schema<IMute>({
+  type: { type: String, enum: MUTE_TYPES, required: true },
+  target: { type: String, required: true },
+  regex: { type: Boolean, default: false },
+  action: { type: String, enum: ["hide", "warn"], default: "hide" },
+  expiresAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Let MongoDB remove expired mutes; reads also skip them until it does
+MuteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Mute = model<IMute>("Mute", MuteSchema);
+
+// Reports (Flag activities) received from other servers
+export interface IReport extends Document {
+  activityId?: string; // id of the Flag activity
+  reporter: string; // actor URL of whoever sent the Flag
+  targets: string[]; // URLs of the reported actors and posts
+  comment?: string;
+  status: "open" | "resolved" | "dismissed";
+  createdAt: Date;
+  closedAt?: Date; // when it was resolved or dismissed
+}
+
+const ReportSchema = new Schema<IReport>({
+  activityId: { type: String, unique: true, sparse: true },
+  reporter: { type: String, required: true },
+  targets: { type: [String], default: [] },
+  comment: { type: String },
+  status: {
+    type: String,
+    enum: ["open", "resolved", "dismissed"],
+    default: "open",
+  },
+  createdAt: { type: Date, default: Date.now },
+  closedAt: { type: Date },
+});
+
+export const Report = model<IReport>("Report", ReportSchema);
+
+// Data migrations that have been applied to this database
+export interface IMigration extends Document {
+  name: string;
+  appliedAt: Date;
+}
+
+const MigrationSchema = new Schema<IMigration>({
+  name: { type: String, required: true, unique: true },
+  appliedAt: { type: Date, default: Date.now },
+});
+
+export const Migration = model<IMigration>("Migration", MigrationSchema);
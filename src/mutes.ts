@@ -0,0 +1,75 @@
+import { type IMute, type IPost, Mute } from "./models.js";
+
+// Returns the mutes that haven't expired yet.  MongoDB's TTL monitor only runs
+// once a minute, so expired mutes are filtered out here too.
+export async function getActiveMutes(): Promise<IMute[]> {
+  return await Mute.find({
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  })
+    .sort({ createdAt: -1 })
+    .exec();
+}
+
+// Checks that a keyword filter pattern compiles, returning the error if not
+export function validatePattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, "i");
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+function postText(post: IPost): string {
+  const content = post.content.replace(/<[^>]*>/g, " ");
+  return post.summary ? `${post.summary} ${content}` : content;
+}
+
+function matches(mute: IMute, post: IPost): boolean {
+  switch (mute.type) {
+    case "actor":
+      return post.author === mute.target;
+    case "domain": {
+      let host: string;
+      try {
+        host = new URL(post.author).hostname;
+      } catch {
+        return false;
+      }
+      return host === mute.target || host.endsWith(`.${mute.target}`);
+    }
+    case "keyword": {
+      const text = postText(post);
+      if (!mute.regex) {
+        return text.toLowerCase().includes(mute.target.toLowerCase());
+      }
+      return validatePattern(mute.target) == null
+        ? new RegExp(mute.target, "i").test(text)
+        : false;
+    }
+  }
+}
+
+// Finds the mute that applies to a remote post; hiding wins over warning
+export function findMute(post: IPost, mutes: IMute[]): IMute | undefined {
+  if (!post.remote) return undefined;
+  const found = mutes.filter((mute) => matches(mute, post));
+  return found.find((mute) => mute.action === "hide") ?? found[0];
+}
+
+// Drops hidden posts and labels the ones to collapse with what they matched
+export function applyMutes(
+  posts: IPost[],
+  mutes: IMute[],
+): { post: IPost; filtered?: string }[] {
+  const result: { post: IPost; filtered?: string }[] = [];
+  for (const post of posts) {
+    const mute = findMute(post, mutes);
+    if (mute?.action === "hide") continue;
+    result.push({ post, filtered: mute?.target });
+  }
+  return result;
+}
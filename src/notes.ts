@@ -0,0 +1,272 @@
+import {
+  Document as APDocument,
+  type Object as APObject,
+  type Actor,
+  Announce,
+  type Context,
+  Create,
+  Link,
+  Mention,
+  Note,
+  PUBLIC_COLLECTION,
+  Update,
+} from "@fedify/fedify";
+import { Temporal } from "@js-temporal/polyfill";
+import { getLogger } from "@logtape/logtape";
+import { getRemoteActors, saveRemoteActor } from "./actors.js";
+import {
+  type IAnnounce,
+  type IAttachment,
+  type IPost,
+  Post,
+} from "./models.js";
+
+const logger = getLogger("wendy");
+
+// Converts a stored date to the Temporal.Instant that Fedify's vocabulary uses
+export function toInstant(date: Date): Temporal.Instant {
+  return Temporal.Instant.fromEpochMilliseconds(new Date(date).getTime());
+}
+
+// Extracts the fields we store for a remote Note
+export async function noteFields(note: APObject) {
+  const attachments: IAttachment[] = [];
+  for await (const attachment of note.getAttachments({ suppressError: true })) {
+    if (!(attachment instanceof APDocument)) continue;
+    const url =
+      attachment.url instanceof Link ? attachment.url.href : attachment.url;
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+      continue;
+    }
+    attachments.push({
+      url: url.href,
+      mediaType: attachment.mediaType ?? undefined,
+      name: attachment.name?.toString(),
+    });
+  }
+  return {
+    content: note.content?.toString() ?? "",
+    summary: note.summary?.toString() || undefined,
+    attachments,
+  };
+}
+
+// Finds the stored post a Note replies to: one of ours, recognised by its
+// URI, or a remote post we have by object id
+async function findParentPost(
+  ctx: Context<unknown>,
+  uri: URL,
+): Promise<IPost | null> {
+  const parsed = ctx.parseUri(uri);
+  if (parsed?.type === "object" && parsed.class === Note) {
+    const { id, identifier } = parsed.values;
+    if (id?.length !== 24) return null;
+    return await Post.findOne({ _id: id, author: identifier }).exec();
+  }
+  return await Post.findOne({ objectId: uri.href }).exec();
+}
+
+// Stores a remote Note as a post unless we already have it.  Posts are keyed
+// on their object id, so a Create redelivered through another inbox or a
+// relay, or one arriving after the Update that edited the post, is a no-op.
+export async function storeRemoteNote(
+  ctx: Context<unknown>,
+  object: APObject,
+  author: string,
+  actor: Actor | null,
+): Promise<IPost | null> {
+  if (!object.id) {
+    logger.warn(`Ignoring remote Note without an id from ${author}`);
+    return null;
+  }
+  const objectId = object.id.href;
+  if (await Post.exists({ objectId })) {
+    logger.info(`Already have remote post ${objectId}`);
+    return null;
+  }
+
+  const { content, summary, attachments } = await noteFields(object);
+  if (!content) {
+    logger.error(`Missing content for remote post ${objectId}`);
+    return null;
+  }
+
+  // Convert Temporal.Instant to JavaScript Date for MongoDB
+  let publishedDate = new Date();
+  if (object.published) {
+    if (typeof object.published === "string") {
+      publishedDate = new Date(object.published);
+    } else if (object.published.epochMilliseconds) {
+      publishedDate = new Date(object.published.epochMilliseconds);
+    } else {
+      publishedDate = new Date(object.published.toString());
+    }
+  }
+
+  // Cache the author's profile so views can show real names and avatars
+  const remoteActor = actor ? await saveRemoteActor(actor) : null;
+
+  // Thread replies under their parent.  If we don't have the parent yet, the
+  // reply keeps its URI and is linked once the parent arrives.
+  const inReplyTo = object.replyTargetId;
+  const parent = inReplyTo ? await findParentPost(ctx, inReplyTo) : null;
+
+  try {
+    const post = await Post.create({
+      content,
+      summary,
+      attachments,
+      author,
+      host: new URL(author).hostname,
+      createdAt: publishedDate,
+      ...(object.updated && {
+        updatedAt: new Date(object.updated.epochMilliseconds),
+      }),
+      remote: true,
+      objectId,
+      remoteAuthorName:
+        remoteActor?.name || remoteActor?.preferredUsername || author,
+      remoteAuthorAvatar: remoteActor?.avatarUrl || "",
+      remoteAuthorUrl: author,
+      inReplyTo: inReplyTo?.href,
+      replyTo: parent ? String(parent._id) : undefined,
+    });
+    logger.info(`Successfully stored remote post with ID: ${post._id}`);
+
+    const orphans = await Post.updateMany(
+      { inReplyTo: objectId, replyTo: { $exists: false } },
+      { $set: { replyTo: String(post._id) } },
+    ).exec();
+    if (orphans.modifiedCount > 0) {
+      logger.info(
+        `Linked ${orphans.modifiedCount} earlier replies to ${objectId}`,
+      );
+    }
+    return post;
+  } catch (error) {
+    // A concurrent delivery of the same object got there first
+    if ((error as { code?: number }).code === 11000) return null;
+    logger.error(`Failed to store remote post: ${error}`);
+    return null;
+  }
+}
+
+// Builds the Note for one of our posts.  The object dispatcher, the outbox and
+// outgoing Create activities all use this, so what we deliver matches what
+// remote servers dereference.
+export async function toNote(
+  ctx: Context<unknown>,
+  post: IPost,
+): Promise<Note> {
+  const identifier = post.author;
+  const values = { identifier, id: String(post._id) };
+  const id = ctx.getObjectUri(Note, values);
+
+  // Public, with a copy to our followers; a reply to a remote post also
+  // addresses and mentions that post's author
+  const ccs = [ctx.getFollowersUri(identifier)];
+  const tags: Mention[] = [];
+  let inReplyTo: URL | null = null;
+  const parent =
+    post.replyTo?.length === 24
+      ? await Post.findById(post.replyTo).exec()
+      : null;
+  if (parent?.remote) {
+    if (parent.objectId) inReplyTo = new URL(parent.objectId);
+    const author = (await getRemoteActors([parent.author])).get(parent.author);
+    ccs.push(new URL(parent.author));
+    tags.push(
+      new Mention({ href: new URL(parent.author), name: author?.handle }),
+    );
+  } else if (parent) {
+    inReplyTo = ctx.getObjectUri(Note, {
+      identifier: parent.author,
+      id: String(parent._id),
+    });
+  }
+
+  return new Note({
+    id,
+    url: id,
+    attribution: ctx.getActorUri(identifier),
+    to: PUBLIC_COLLECTION,
+    ccs,
+    replyTarget: inReplyTo,
+    summary: post.summary || null,
+    sensitive: !!post.summary,
+    content: post.content,
+    mediaType: "text/html",
+    published: toInstant(post.createdAt),
+    updated: post.updatedAt ? toInstant(post.updatedAt) : null,
+    tags,
+    attachments: (post.attachments ?? []).map(
+      (attachment) =>
+        new APDocument({
+          url: new URL(attachment.url),
+          mediaType: attachment.mediaType,
+          name: attachment.name,
+        }),
+    ),
+    replies: ctx.getCollectionUri("replies", values),
+  });
+}
+
+// The Create activity that published one of our posts, addressed like its Note
+export async function toCreate(
+  ctx: Context<unknown>,
+  post: IPost,
+): Promise<Create> {
+  const note = await toNote(ctx, post);
+  const actor = ctx.getActorUri(post.author);
+  return new Create({
+    id: new URL(`#create-${post._id}`, actor.href),
+    actor,
+    tos: note.toIds,
+    ccs: note.ccIds,
+    published: note.published,
+    object: note,
+  });
+}
+
+// The Update activity that delivers an edit of one of our posts
+export async function toUpdate(
+  ctx: Context<unknown>,
+  post: IPost,
+): Promise<Update> {
+  const note = await toNote(ctx, post);
+  const actor = ctx.getActorUri(post.author);
+  const updated = new Date(post.updatedAt ?? post.createdAt);
+  return new Update({
+    id: new URL(`#update-${post._id}-${updated.getTime()}`, actor.href),
+    actor,
+    tos: note.toIds,
+    ccs: note.ccIds,
+    updated: note.updated,
+    object: note,
+  });
+}
+
+// The Announce activity for one of our reposts.  Returns null for a remote
+// post whose object id we never stored.
+export function toAnnounce(
+  ctx: Context<unknown>,
+  identifier: string,
+  announce: IAnnounce,
+  post: IPost,
+): Announce | null {
+  const object = post.remote
+    ? post.objectId && new URL(post.objectId)
+    : ctx.getObjectUri(Note, {
+        identifier: post.author,
+        id: String(post._id),
+      });
+  if (!object) return null;
+  const actor = ctx.getActorUri(identifier);
+  return new Announce({
+    id: new URL(`#announce-${announce._id}`, actor.href),
+    actor,
+    to: PUBLIC_COLLECTION,
+    object,
+    published: toInstant(announce.createdAt),
+  });
+}
@@ -0,0 +1,84 @@
+import type { FilterQuery, Model } from "mongoose";
+
+// Cursor-based pagination over `createdAt` with `_id` as a tie-breaker.  A
+// cursor is "<createdAt in ms>_<_id>" of the last item on the previous page,
+// so pages stay stable while new items are added.  The empty string is the
+// cursor of the first page.
+
+export type SortOrder = "asc" | "desc";
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export function encodeCursor(doc: { createdAt: Date; _id: unknown }): string {
+  return `${new Date(doc.createdAt).getTime()}_${String(doc._id)}`;
+}
+
+// Builds the filter for documents after `cursor` in the given order, or
+// returns null if the cursor is malformed
+export function afterCursor(
+  cursor: string | null | undefined,
+  order: SortOrder,
+): Record<string, unknown> | null {
+  if (!cursor) return {};
+  const match = /^(\d+)_([0-9a-f]{24})$/.exec(cursor);
+  if (!match) return null;
+  const createdAt = new Date(Number(match[1]));
+  const op = order === "asc" ? "$gt" : "$lt";
+  return {
+    $or: [
+      { createdAt: { [op]: createdAt } },
+      { createdAt, _id: { [op]: match[2] } },
+    ],
+  };
+}
+
+// Fetches one page of documents matching `filter`.  Returns null if the
+// cursor is malformed.
+export async function findPage<T extends { createdAt: Date }>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  cursor: string | null | undefined,
+  { limit, order = "desc" }: { limit: number; order?: SortOrder },
+): Promise<Page<T> | null> {
+  const after = afterCursor(cursor, order);
+  if (after == null) return null;
+  const direction = order === "asc" ? 1 : -1;
+  const docs = await model
+    .find({ $and: [filter, after] } as FilterQuery<T>)
+    .sort({ createdAt: direction, _id: direction })
+    .limit(limit + 1)
+    .exec();
+  const items = docs.slice(0, limit) as T[];
+  const last = items[items.length - 1] as
+    | (T & { _id: unknown; createdAt: Date })
+    | undefined;
+  return {
+    items,
+    nextCursor: docs.length > limit && last ? encodeCursor(last) : null,
+  };
+}
+
+// Returns the cursor of the last page of documents matching `filter`, i.e. the
+// cursor of the document just before that page
+export async function findLastCursor<T extends { createdAt: Date }>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  { limit, order = "desc" }: { limit: number; order?: SortOrder },
+): Promise<string> {
+  const count = await model.countDocuments(filter).exec();
+  const lastPageStart = Math.floor(Math.max(count - 1, 0) / limit) * limit;
+  if (lastPageStart === 0) return "";
+  const direction = order === "asc" ? 1 : -1;
+  const [before] = await model
+    .find(filter)
+    .sort({ createdAt: direction, _id: direction })
+    .skip(lastPageStart - 1)
+    .limit(1)
+    .exec();
+  return before
+    ? encodeCursor(before as T & { _id: unknown; createdAt: Date })
+    : "";
+}
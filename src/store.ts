@@ -0,0 +1,235 @@
+import type {
+  KvKey,
+  KvStore,
+  KvStoreListEntry,
+  KvStoreSetOptions,
+  MessageQueue,
+  MessageQueueEnqueueOptions,
+  MessageQueueListenOptions,
+} from "@fedify/fedify";
+import { getLogger } from "@logtape/logtape";
+import { type IQueueMessage, KvEntry, QueueMessage } from "./models.js";
+
+const logger = getLogger("wendy");
+
+// Keys and values are stored as JSON strings since JSON-LD documents may
+// contain keys (like "@context" or full IRIs with dots) that MongoDB won't
+// accept as field names
+function encodeKey(key: KvKey): string {
+  return JSON.stringify(key);
+}
+
+function liveFilter(now: Date = new Date()) {
+  return {
+    $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }],
+  };
+}
+
+// Builds the update document for storing a value, clearing any previous TTL
+// when the new value has none
+function entryUpdate(key: KvKey, value: unknown, options?: KvStoreSetOptions) {
+  const fields = {
+    key: encodeKey(key),
+    parts: [...key],
+    value: JSON.stringify(value),
+  };
+  if (!options?.ttl) return { $set: fields, $unset: { expiresAt: "" } };
+  const expiresAt = new Date(Date.now() + options.ttl.total("millisecond"));
+  return { $set: { ...fields, expiresAt } };
+}
+
+/**
+ * A Fedify key–value store backed by the `KvEntry` collection.  Expired
+ * entries are filtered out on read and eventually removed by MongoDB's TTL
+ * monitor.
+ */
+export class MongoKvStore implements KvStore {
+  async get<T = unknown>(key: KvKey): Promise<T | undefined> {
+    const entry = await KvEntry.findOne({
+      key: encodeKey(key),
+      ...liveFilter(),
+    }).exec();
+    if (!entry) return undefined;
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set(
+    key: KvKey,
+    value: unknown,
+    options?: KvStoreSetOptions,
+  ): Promise<void> {
+    await KvEntry.updateOne(
+      { key: encodeKey(key) },
+      entryUpdate(key, value, options),
+      { upsert: true },
+    ).exec();
+  }
+
+  async delete(key: KvKey): Promise<void> {
+    await KvEntry.deleteOne({ key: encodeKey(key) }).exec();
+  }
+
+  async cas(
+    key: KvKey,
+    expectedValue: unknown,
+    newValue: unknown,
+    options?: KvStoreSetOptions,
+  ): Promise<boolean> {
+    const update = entryUpdate(key, newValue, options);
+    if (expectedValue === undefined) {
+      // Only succeed if there is no live entry yet; the unique index on `key`
+      // makes a concurrent insert fail
+      await KvEntry.deleteOne({
+        key: encodeKey(key),
+        expiresAt: { $lte: new Date() },
+      }).exec();
+      try {
+        await KvEntry.create(update.$set);
+        return true;
+      } catch (error) {
+        if ((error as { code?: number }).code === 11000) return false;
+        throw error;
+      }
+    }
+    const result = await KvEntry.updateOne(
+      {
+        key: encodeKey(key),
+        value: JSON.stringify(expectedValue),
+        ...liveFilter(),
+      },
+      update,
+    ).exec();
+    return result.matchedCount > 0;
+  }
+
+  async *list(prefix?: KvKey): AsyncIterable<KvStoreListEntry> {
+    const filter: Record<string, unknown> = liveFilter();
+    prefix?.forEach((part, i) => {
+      filter[`parts.${i}`] = part;
+    });
+    for await (const entry of KvEntry.find(filter).sort({ key: 1 }).cursor()) {
+      yield {
+        key: entry.parts as unknown as KvKey,
+        value: JSON.parse(entry.value),
+      };
+    }
+  }
+}
+
+export interface MongoMessageQueueOptions {
+  // Separates queues sharing the collection; each listener only sees
+  // messages enqueued on its own channel
+  channel?: string;
+  // How often to look for due messages when the queue is idle
+  pollInterval?: number;
+  // How long a worker may hold a message before others can pick it up again
+  lockTimeout?: number;
+}
+
+/**
+ * A Fedify message queue backed by the `QueueMessage` collection.  Messages
+ * survive restarts, honour enqueue delays, and are claimed with a lock so
+ * that only one worker processes each message at a time.  A message whose
+ * worker died mid-way becomes available again once its lock expires.
+ */
+export class MongoMessageQueue implements MessageQueue {
+  readonly nativeRetrial = false;
+  readonly #channel?: string;
+  readonly #pollInterval: number;
+  readonly #lockTimeout: number;
+
+  constructor(options: MongoMessageQueueOptions = {}) {
+    this.#channel = options.channel;
+    this.#pollInterval = options.pollInterval ?? 5_000;
+    this.#lockTimeout = options.lockTimeout ?? 5 * 60_000;
+  }
+
+  async enqueue(
+    message: unknown,
+    options?: MessageQueueEnqueueOptions,
+  ): Promise<void> {
+    await this.enqueueMany([message], options);
+  }
+
+  async enqueueMany(
+    messages: unknown[],
+    options?: MessageQueueEnqueueOptions,
+  ): Promise<void> {
+    if (messages.length === 0) return;
+    const delay = options?.delay?.total("millisecond") ?? 0;
+    const deliverAt = new Date(Date.now() + Math.max(0, delay));
+    await QueueMessage.insertMany(
+      messages.map((message) => ({
+        channel: this.#channel,
+        message: JSON.stringify(message),
+        deliverAt,
+      })),
+    );
+  }
+
+  async listen(
+    handler: (message: unknown) => Promise<void> | void,
+    options: MessageQueueListenOptions = {},
+  ): Promise<void> {
+    const { signal } = options;
+    // Fedify doesn't await this loop, so database errors are logged and
+    // retried here; only the signal ends it
+    while (!signal?.aborted) {
+      let claimed: IQueueMessage | null;
+      try {
+        claimed = await this.#claim();
+      } catch (error) {
+        logger.error(`Failed to claim a queued message: ${error}`);
+        await sleep(this.#pollInterval, signal);
+        continue;
+      }
+      if (!claimed) {
+        await sleep(this.#pollInterval, signal);
+        continue;
+      }
+      try {
+        await handler(JSON.parse(claimed.message));
+      } catch (error) {
+        // Fedify re-enqueues failed deliveries itself, so we only log here
+        logger.error(`Failed to process queued message: ${error}`);
+      }
+      try {
+        await QueueMessage.deleteOne({ _id: claimed._id }).exec();
+      } catch (error) {
+        // The message is handled again once its lock expires
+        logger.error(`Failed to remove a processed message: ${error}`);
+        await sleep(this.#pollInterval, signal);
+      }
+    }
+  }
+
+  // Atomically lock the oldest due message so no other worker takes it
+  async #claim() {
+    const now = new Date();
+    return await QueueMessage.findOneAndUpdate(
+      {
+        channel: this.#channel ?? null,
+        deliverAt: { $lte: now },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: { $lte: now } },
+        ],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + this.#lockTimeout) } },
+      { sort: { deliverAt: 1 }, new: true },
+    ).exec();
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
@@ -0,0 +1,120 @@
+import { unblockedPostFilter } from "./blocks.js";
+import { type IPost, Post } from "./models.js";
+import { findMute, getActiveMutes } from "./mutes.js";
+
+// How far up and down a conversation we follow `replyTo` links
+const MAX_ANCESTORS = 50;
+const MAX_DEPTH = 20;
+
+export interface ThreadNode {
+  post: IPost;
+  replyCount: number;
+  filtered?: string; // what a mute filter matched; collapses the post
+  children: ThreadNode[];
+}
+
+// Counts the direct replies to each post, leaving out blocked authors
+export async function countReplies(
+  posts: IPost[],
+): Promise<Map<string, number>> {
+  if (posts.length === 0) return new Map();
+  const counts = await Post.aggregate<{ _id: string; count: number }>([
+    {
+      $match: {
+        replyTo: { $in: posts.map((post) => String(post._id)) },
+        ...(await unblockedPostFilter()),
+      },
+    },
+    { $group: { _id: "$replyTo", count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map(({ _id, count }) => [_id, count]));
+}
+
+// Walks `replyTo` links up to the root of the thread, root first
+export async function getAncestors(post: IPost): Promise<IPost[]> {
+  const ancestors: IPost[] = [];
+  const seen = new Set([String(post._id)]);
+  let parentId = post.replyTo;
+  while (parentId?.length === 24 && ancestors.length < MAX_ANCESTORS) {
+    if (seen.has(parentId)) break;
+    seen.add(parentId);
+    const parent = await Post.findById(parentId).exec();
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = parent.replyTo;
+  }
+  return ancestors;
+}
+
+// Loads every reply below a post, one level at a time, as a tree.  Replies by
+// blocked authors and hidden by mute filters are left out with their subtrees.
+export async function getDescendants(post: IPost): Promise<ThreadNode[]> {
+  const blocked = await unblockedPostFilter();
+  const mutes = await getActiveMutes();
+  const roots: ThreadNode[] = [];
+  const nodes = new Map<string, ThreadNode[]>([[String(post._id), roots]]);
+
+  let frontier = [String(post._id)];
+  for (let depth = 0; depth < MAX_DEPTH && frontier.length > 0; depth++) {
+    const replies = await Post.find({ replyTo: { $in: frontier }, ...blocked })
+      .sort({ createdAt: 1 })
+      .exec();
+    frontier = [];
+    for (const reply of replies) {
+      const mute = findMute(reply, mutes);
+      if (mute?.action === "hide") continue;
+      const node: ThreadNode = {
+        post: reply,
+        replyCount: 0,
+        filtered: mute?.target,
+        children: [],
+      };
+      const siblings = nodes.get(reply.replyTo ?? "");
+      if (!siblings) continue;
+      siblings.push(node);
+      nodes.set(String(reply._id), node.children);
+      frontier.push(String(reply._id));
+    }
+  }
+
+  // Count replies from the database rather than the loaded tree, which is
+  // cut off at MAX_DEPTH
+  const all: ThreadNode[] = [];
+  const collect = (list: ThreadNode[]) => {
+    for (const node of list) {
+      all.push(node);
+      collect(node.children);
+    }
+  };
+  collect(roots);
+  const counts = await countReplies(all.map((node) => node.post));
+  for (const node of all) {
+    node.replyCount = counts.get(String(node.post._id)) ?? 0;
+  }
+  return roots;
+}
+
+export interface Conversation {
+  ancestors: ThreadNode[]; // root first, each without children
+  replyCount: number; // direct replies to the post itself
+  descendants: ThreadNode[];
+}
+
+// Gathers the whole conversation around a post.  Muted ancestors are
+// collapsed rather than hidden so the thread still reads in order.
+export async function getConversation(post: IPost): Promise<Conversation> {
+  const mutes = await getActiveMutes();
+  const ancestorPosts = await getAncestors(post);
+  const counts = await countReplies([...ancestorPosts, post]);
+  const ancestors = ancestorPosts.map((ancestor) => ({
+    post: ancestor,
+    replyCount: counts.get(String(ancestor._id)) ?? 0,
+    filtered: findMute(ancestor, mutes)?.target,
+    children: [],
+  }));
+  return {
+    ancestors,
+    replyCount: counts.get(String(post._id)) ?? 0,
+    descendants: await getDescendants(post),
+  };
+}
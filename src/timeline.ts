@@ -0,0 +1,63 @@
+import { unblockedPostFilter } from "./blocks.js";
+import { Following, type IPost, Post } from "./models.js";
+import { applyMutes, getActiveMutes } from "./mutes.js";
+import { findPage } from "./pagination.js";
+
+// How many posts each "load more" step fetches
+export const TIMELINE_PAGE_SIZE = 20;
+
+export interface TimelinePage {
+  posts: { post: IPost; filtered?: string }[];
+  nextCursor: string | null;
+}
+
+// The owner's home timeline: their own posts plus posts by actors who
+// accepted our follow, minus blocked and silenced authors.  Mute filters are
+// applied to each page, so a page may hold fewer than TIMELINE_PAGE_SIZE
+// posts.  Returns null if the cursor is malformed.
+export async function getHomeTimeline(
+  username: string,
+  actorUri: string,
+  cursor?: string | null,
+): Promise<TimelinePage | null> {
+  const following = await Following.find({
+    follower: actorUri,
+    accepted: true,
+  }).exec();
+  const page = await findPage(
+    Post,
+    {
+      $or: [
+        { author: username, remote: { $ne: true } },
+        { author: { $in: following.map((f) => f.following) }, remote: true },
+      ],
+      ...(await unblockedPostFilter({ silenced: true })),
+    },
+    cursor,
+    { limit: TIMELINE_PAGE_SIZE },
+  );
+  if (!page) return null;
+  return {
+    posts: applyMutes(page.items, await getActiveMutes()),
+    nextCursor: page.nextCursor,
+  };
+}
+
+// A user's public profile: only posts written here.  Returns null if the
+// cursor is malformed.
+export async function getProfilePosts(
+  username: string,
+  cursor?: string | null,
+): Promise<TimelinePage | null> {
+  const page = await findPage(
+    Post,
+    { author: username, remote: { $ne: true } },
+    cursor,
+    { limit: TIMELINE_PAGE_SIZE },
+  );
+  if (!page) return null;
+  return {
+    posts: page.items.map((post) => ({ post })),
+    nextCursor: page.nextCursor,
+  };
+}
@@ -1,6 +1,38 @@
 import type { FC } from "hono/jsx";
-import type { IFollow, IPost, IUser } from "./models.ts";
-import { Post } from "./models.ts";
+import type { BlocklistPreview } from "./blocklist.ts";
+import type {
+  IBlock,
+  IFollow,
+  IFollowRequest,
+  IFollowing,
+  IMute,
+  IPost,
+  IPostRevision,
+  IRemoteActor,
+  IReport,
+  IUser,
+} from "./models.ts";
+import type { ThreadNode } from "./threads.ts";
+
+// Reverses the escaping applied to local post content when it was saved, so
+// the edit form shows what was typed
+function unescapeContent(content: string): string {
+  return content.replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+    String.fromCodePoint(Number.parseInt(hex, 16)),
+  );
+}
+
+// Whether a URL from a remote server is safe to link to; anything but http(s),
+// such as `javascript:`, is shown as text instead
+function isWebUrl(url: string | undefined): url is string {
+  if (!url) return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
 
 // Utility to linkify text and embed images for imgur/placehold URLs
 function linkifyAndEmbed(text: string): string {
@@ -274,9 +306,14 @@ export const SetupForm: FC = () => (
   </>
 );
 
-export const FollowForm: FC = () => (
+export const FollowForm: FC<{ error?: string }> = ({ error }) => (
   <>
     <h3>Follow</h3>
+    {error && (
+      <p role="alert" style={{ color: "#c00" }}>
+        {error}
+      </p>
+    )}
     <form method="post" action="/follow">
       <fieldset>
         <label>
@@ -285,7 +322,7 @@ export const FollowForm: FC = () => (
             type="text"
             name="handle"
             required
-            placeholder="@user@example.com"
+            placeholder="@user@example.com or https://example.com/@user"
           />
         </label>
       </fieldset>
@@ -294,6 +331,26 @@ export const FollowForm: FC = () => (
   </>
 );
 
+// Links to the owner's account management pages
+const OwnerLinks: FC = () => (
+  <nav>
+    <ul>
+      <li>
+        <a href="/follow-requests">Follow requests</a>
+      </li>
+      <li>
+        <a href="/blocks">Blocks</a>
+      </li>
+      <li>
+        <a href="/mutes">Mutes</a>
+      </li>
+      <li>
+        <a href="/moderation">Reports</a>
+      </li>
+    </ul>
+  </nav>
+);
+
 export interface ProfileProps {
   name: string;
   username: string;
@@ -334,22 +391,30 @@ export interface HomeProps {
   handle: string;
   followers: number;
   following: number;
-  posts?: IPost[];
+  posts: { post: IPost; filtered?: string }[];
+  actors: Map<string, IRemoteActor>; // cached profiles of remote authors
+  replyCounts: Map<string, number>; // by post id
+  nextCursor?: string | null; // cursor of the next page, if there is one
   isProfilePage?: boolean;
   domain?: string;
+  error?: string; // shown above the follow form
+  isOwner?: boolean; // whether the owner is logged in
 }
 
-export const Home: FC<HomeProps> = async ({
+export const Home: FC<HomeProps> = ({
   user,
   handle,
   followers,
   following,
-  posts,
+  posts: timeline,
+  actors,
+  replyCounts,
+  nextCursor,
   isProfilePage,
   domain,
+  error,
+  isOwner,
 }) => {
-  // If posts are provided (profile page), use them; otherwise fetch all
-  const allPosts = posts ?? (await Post.find().sort({ createdAt: -1 }).exec());
   const postDomain = domain;
   return (
     <>
@@ -494,6 +559,24 @@ export const Home: FC<HomeProps> = async ({
               placeholder="••••••••"
             />
           </label>
+          <label>
+            <input
+              id="edit-manuallyApprovesFollowers"
+              name="manuallyApprovesFollowers"
+              type="checkbox"
+              checked={user.manuallyApprovesFollowers}
+            />
+            Lock account (approve new followers manually)
+          </label>
+          <label>
+            <input
+              id="edit-hideCollections"
+              name="hideCollections"
+              type="checkbox"
+              checked={user.hideCollections}
+            />
+            Hide who I follow and who follows me
+          </label>
         </form>
       </article>
 
@@ -560,7 +643,12 @@ export const Home: FC<HomeProps> = async ({
         <div id="auth-only" style={{ display: "none" }}>
           {/* Follow Someone Card */}
           <article class="card">
-            <FollowForm />
+            <FollowForm error={error} />
+          </article>
+
+          {/* Account Management Card */}
+          <article class="card">
+            <OwnerLinks />
           </article>
 
           {/* New Post Card */}
@@ -638,160 +726,19 @@ export const Home: FC<HomeProps> = async ({
       )}
 
       {/* Timeline Section (posts already in cards) */}
-      {allPosts.map((post) => {
-        // Determine if this is a remote post and get the correct author info
-        const isRemote = post.remote;
-        let displayName = user.displayName;
-        let avatarUrl = user.avatarUrl;
-        let handle = `@${user.username}@${postDomain}`;
-
-        if (isRemote) {
-          // For remote posts, extract proper display name and handle from the author URL
-          try {
-            const url = new URL(post.author);
-            const pathParts = url.pathname.split("/").filter(Boolean);
-
-            // Extract username from path (e.g., /@username or /users/username)
-            let username = "";
-            if (pathParts.length > 0) {
-              username = pathParts[pathParts.length - 1];
-              // Remove @ prefix if present
-              if (username.startsWith("@")) {
-                username = username.substring(1);
-              }
-            }
-
-            // Use stored remote author name or fallback to username
-            displayName = post.remoteAuthorName || username || "Remote User";
-            avatarUrl = post.remoteAuthorAvatar || "";
-            handle = `@${username}@${url.hostname}`;
-          } catch (e) {
-            // Fallback if URL parsing fails
-            displayName = post.remoteAuthorName || "Remote User";
-            avatarUrl = post.remoteAuthorAvatar || "";
-            handle = post.author;
-          }
-        }
-
-        return (
-          <article
-            key={post._id}
-            class="card"
-            style={{
-              display: "flex",
-              gap: "1rem",
-              alignItems: "flex-start",
-              padding: "1.5rem",
-              marginBottom: "1.5rem",
-            }}
-          >
-            {/* Post content and meta (avatar removed) */}
-            <div style={{ flex: 1 }}>
-              <div
-                style={{
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "space-between",
-                }}
-              >
-                <div>
-                  <span style={{ fontWeight: 600 }}>{displayName}</span>
-                  <br />
-                  <span style={{ color: "#888", fontSize: "0.95em" }}>
-                    {handle}
-                  </span>
-                </div>
-                <time
-                  dateTime={new Date(post.createdAt).toISOString()}
-                  style={{ color: "#888", fontSize: "0.95em" }}
-                >
-                  {new Date(post.createdAt).toLocaleString()}
-                </time>
-              </div>
-              {/* biome-ignore lint/security/noDangerouslySetInnerHtml: Post content is sanitized */}
-              <div
-                style={{ margin: "0.75em 0" }}
-                dangerouslySetInnerHTML={{
-                  __html: isRemote
-                    ? post.content
-                    : linkifyAndEmbed(post.content),
-                }}
-              />
-              <div
-                style={{
-                  display: "flex",
-                  alignItems: "center",
-                  gap: "1.5em",
-                  fontSize: "0.98em",
-                  color: "#666",
-                }}
-              >
-                <button
-                  type="button"
-                  class="secondary"
-                  data-like-btn
-                  data-post-id={post._id}
-                  style={{
-                    background: "none",
-                    border: "none",
-                    cursor: "pointer",
-                    color: "#c00",
-                    paddingLeft: "0",
-                  }}
-                  title="Like"
-                >
-                  ❤️ <span class="like-count">0</span>
-                </button>
-                <button
-                  type="button"
-                  class="secondary"
-                  data-announce-btn
-                  data-post-id={post._id}
-                  style={{
-                    background: "none",
-                    border: "none",
-                    cursor: "pointer",
-                    color: "#0ac",
-                  }}
-                  title="Repost"
-                >
-                  🔄 <span class="announce-count">0</span>
-                </button>
-                <button
-                  type="button"
-                  class="secondary reply-btn"
-                  data-post-id={post._id}
-                  data-post-content={post.content}
-                  data-post-author={displayName}
-                  data-post-handle={handle}
-                  style={{
-                    background: "none",
-                    border: "none",
-                    cursor: "pointer",
-                    color: "#888",
-                  }}
-                  title="Reply"
-                >
-                  💬 0
-                </button>
-                <a
-                  href={
-                    isRemote
-                      ? post.objectId || post.author
-                      : `/users/${post.author}/posts/${post._id}`
-                  }
-                  class="secondary"
-                  target={isRemote ? "_blank" : undefined}
-                  rel={isRemote ? "noopener noreferrer" : undefined}
-                  style={{ textDecoration: "none", marginLeft: "1em" }}
-                >
-                  🔗
-                </a>
-              </div>
-            </div>
-          </article>
-        );
-      })}
+      {timeline.map(({ post, filtered }) => (
+        <PostView
+          key={String(post._id)}
+          post={post}
+          user={user}
+          domain={postDomain}
+          actor={actors.get(post.author)}
+          filtered={filtered}
+          replyCount={replyCounts.get(String(post._id))}
+          isOwner={isOwner}
+        />
+      ))}
+      <LoadMore cursor={nextCursor} />
 
       {/* Seamless login/logout JS */}
       {/* biome-ignore lint/security/noDangerouslySetInnerHtml: Inline script for login/logout and profile edit UI */}
@@ -822,6 +769,8 @@ export const Home: FC<HomeProps> = async ({
   const editAvatarUrl = document.getElementById('edit-avatarUrl');
   const editHeaderUrl = document.getElementById('edit-headerUrl');
   const editPassword = document.getElementById('edit-password');
+  const editLocked = document.getElementById('edit-manuallyApprovesFollowers');
+  const editHideCollections = document.getElementById('edit-hideCollections');
 
   function setLoggedInUI() {
     loggedIn = true;
@@ -944,7 +893,9 @@ export const Home: FC<HomeProps> = async ({
         bio: editBio.value,
         avatarUrl: editAvatarUrl.value,
         headerUrl: editHeaderUrl.value,
-        username: editUsername.value
+        username: editUsername.value,
+        manuallyApprovesFollowers: !!editLocked?.checked,
+        hideCollections: !!editHideCollections?.checked
       };
       if (editPassword && editPassword.value) {
         body.password = editPassword.value;
@@ -1114,12 +1065,101 @@ export const Home: FC<HomeProps> = async ({
 
 export interface PostViewProps {
   post: IPost;
+  actor?: IRemoteActor; // cached profile of a remote post's author
+  filtered?: string; // what a mute filter matched; collapses the post
+  replyCount?: number;
+  editable?: boolean; // show the edit form; only for the owner's local posts
+  isOwner?: boolean; // whether the owner is logged in, to show owner actions
 }
 
 export const PostView: FC<
   PostViewProps & { user?: IUser; domain?: string }
-> = ({ post, user, domain }) => {
+> = ({
+  post,
+  user,
+  domain,
+  actor,
+  filtered,
+  replyCount,
+  editable,
+  isOwner,
+}) => {
   // Use user and domain if provided for avatar, display name, handle
+  const isRemote = post.remote;
+  let avatarUrl = user?.avatarUrl;
+  let displayName = user?.displayName || post.author;
+  let handle = `@${user?.username || post.author}${domain ? `@${domain}` : ""}`;
+
+  if (isRemote && actor) {
+    displayName = actor.name || actor.preferredUsername || post.author;
+    avatarUrl = actor.avatarUrl;
+    handle = actor.handle || post.author;
+  } else if (isRemote) {
+    // Without a cached profile, guess display name and handle from the author URL
+    avatarUrl = post.remoteAuthorAvatar;
+    try {
+      const url = new URL(post.author);
+      const pathParts = url.pathname.split("/").filter(Boolean);
+
+      // Extract username from path (e.g., /@username or /users/username)
+      let username = "";
+      if (pathParts.length > 0) {
+        username = pathParts[pathParts.length - 1];
+        // Remove @ prefix if present
+        if (username.startsWith("@")) {
+          username = username.substring(1);
+        }
+      }
+
+      // Use stored remote author name or fallback to username
+      displayName = post.remoteAuthorName || username || "Remote User";
+      handle = `@${username}@${url.hostname}`;
+    } catch (e) {
+      // Fallback if URL parsing fails
+      displayName = post.remoteAuthorName || "Remote User";
+      handle = post.author;
+    }
+  }
+
+  const body = (
+    <>
+      {/* biome-ignore lint/security/noDangerouslySetInnerHtml: Post content is sanitized */}
+      <div
+        style={{ margin: "0.75em 0" }}
+        dangerouslySetInnerHTML={{
+          __html: isRemote ? post.content : linkifyAndEmbed(post.content),
+        }}
+      />
+      {post.attachments
+        ?.filter((attachment) => isWebUrl(attachment.url))
+        .map((attachment) =>
+          attachment.mediaType?.startsWith("image/") ? (
+            <img
+              key={attachment.url}
+              src={attachment.url}
+              alt={attachment.name || ""}
+              style={{
+                width: "100%",
+                display: "block",
+                margin: "0.5em 0",
+                objectFit: "contain",
+              }}
+            />
+          ) : (
+            <p key={attachment.url} style={{ margin: "0.5em 0" }}>
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {attachment.name || attachment.url}
+              </a>
+            </p>
+          ),
+        )}
+    </>
+  );
+
   return (
     <article
       class="card"
@@ -1131,7 +1171,7 @@ export const PostView: FC<
         marginBottom: "1.5rem",
       }}
     >
-      {/* Post content and meta (avatar removed) */}
+      {/* Post content and meta */}
       <div style={{ flex: 1 }}>
         <div
           style={{
@@ -1140,30 +1180,60 @@ export const PostView: FC<
             justifyContent: "space-between",
           }}
         >
-          <div>
-            <span style={{ fontWeight: 600 }}>
-              {user?.displayName || post.author}
-            </span>
-            <br />
-            <span style={{ color: "#888", fontSize: "0.95em" }}>
-              @{user?.username || post.author}
-              {domain ? `@${domain}` : ""}
-            </span>
-          </div>
-          <time
-            dateTime={new Date(post.createdAt).toISOString()}
-            style={{ color: "#888", fontSize: "0.95em" }}
-          >
-            {new Date(post.createdAt).toLocaleString()}
-          </time>
+          <ActorLabel
+            name={displayName}
+            handle={handle}
+            avatarUrl={avatarUrl}
+          />
+          <span style={{ color: "#888", fontSize: "0.95em" }}>
+            <time dateTime={new Date(post.createdAt).toISOString()}>
+              {new Date(post.createdAt).toLocaleString()}
+            </time>
+            {post.updatedAt && (
+              <>
+                {" "}
+                &middot;{" "}
+                <time
+                  dateTime={new Date(post.updatedAt).toISOString()}
+                  title={`Edited ${new Date(post.updatedAt).toLocaleString()}`}
+                >
+                  {isRemote ? (
+                    "edited"
+                  ) : (
+                    <a
+                      href={`/users/${post.author}/posts/${post._id}/history`}
+                      class="secondary"
+                    >
+                      edited
+                    </a>
+                  )}
+                </time>
+              </>
+            )}
+          </span>
         </div>
-        {/* biome-ignore lint/security/noDangerouslySetInnerHtml: Post content is sanitized */}
-        <div
-          style={{ margin: "0.75em 0" }}
-          dangerouslySetInnerHTML={{
-            __html: post.remote ? post.content : linkifyAndEmbed(post.content),
-          }}
-        />
+        {isRemote && isWebUrl(post.inReplyTo) && (
+          <small style={{ color: "#888" }}>
+            ↪ in reply to{" "}
+            <a href={post.inReplyTo} class="secondary">
+              {post.replyTo ? "a post here" : "a post we don't have"}
+            </a>
+          </small>
+        )}
+        {filtered ? (
+          <details style={{ margin: "0.75em 0" }}>
+            <summary>Filtered: {filtered}</summary>
+            {post.summary && <p>{post.summary}</p>}
+            {body}
+          </details>
+        ) : post.summary ? (
+          <details style={{ margin: "0.75em 0" }}>
+            <summary>{post.summary}</summary>
+            {body}
+          </details>
+        ) : (
+          body
+        )}
         <div
           style={{
             display: "flex",
@@ -1209,8 +1279,8 @@ export const PostView: FC<
             class="secondary reply-btn"
             data-post-id={post._id}
             data-post-content={post.content}
-            data-post-author={user?.displayName || post.author}
-            data-post-handle={`@${user?.username || post.author}${domain ? `@${domain}` : ""}`}
+            data-post-author={displayName}
+            data-post-handle={handle}
             style={{
               background: "none",
               border: "none",
@@ -1219,22 +1289,55 @@ export const PostView: FC<
             }}
             title="Reply"
           >
-            💬 0
+            💬 {replyCount ?? 0}
           </button>
           <a
             href={
-              post.remote
+              isRemote
                 ? post.objectId || post.author
                 : `/users/${post.author}/posts/${post._id}`
             }
             class="secondary"
-            target={post.remote ? "_blank" : undefined}
-            rel={post.remote ? "noopener noreferrer" : undefined}
+            target={isRemote ? "_blank" : undefined}
+            rel={isRemote ? "noopener noreferrer" : undefined}
             style={{ textDecoration: "none", marginLeft: "1em" }}
           >
             🔗
           </a>
         </div>
+        {editable && (
+          <details style={{ marginTop: "0.75em", fontSize: "0.9em" }}>
+            <summary style={{ color: "#888" }}>Edit</summary>
+            <form
+              method="post"
+              action={`/users/${post.author}/posts/${post._id}/edit`}
+            >
+              <textarea name="content" rows={4} required>
+                {unescapeContent(post.content)}
+              </textarea>
+              <button type="submit" class="secondary">
+                Save and send the edit
+              </button>
+            </form>
+          </details>
+        )}
+        {isRemote && isOwner && (
+          <details style={{ marginTop: "0.75em", fontSize: "0.9em" }}>
+            <summary style={{ color: "#888" }}>Report</summary>
+            <form method="post" action="/report">
+              <input type="hidden" name="postId" value={String(post._id)} />
+              <textarea
+                name="comment"
+                rows={2}
+                maxLength={1000}
+                placeholder="Why are you reporting this post? This is sent to the author's server."
+              />
+              <button type="submit" class="secondary">
+                Send report
+              </button>
+            </form>
+          </details>
+        )}
       </div>
     </article>
   );
@@ -1243,8 +1346,55 @@ export const PostView: FC<
 export interface PostPageProps extends ProfileProps, PostViewProps {
   user?: IUser;
   domain?: string;
+  // The rest of the conversation, with the cached profiles of remote authors
+  ancestors?: ThreadNode[];
+  descendants?: ThreadNode[];
+  actors?: Map<string, IRemoteActor>;
+  isOwner?: boolean; // whether the viewer may edit the post
 }
 
+// Renders replies as a nested tree
+const ThreadView: FC<{
+  nodes: ThreadNode[];
+  user?: IUser;
+  domain?: string;
+  actors?: Map<string, IRemoteActor>;
+  isOwner?: boolean;
+}> = ({ nodes, user, domain, actors, isOwner }) => (
+  <>
+    {nodes.map((node) => (
+      <div key={String(node.post._id)}>
+        <PostView
+          post={node.post}
+          user={user}
+          domain={domain}
+          actor={actors?.get(node.post.author)}
+          filtered={node.filtered}
+          replyCount={node.replyCount}
+          isOwner={isOwner}
+        />
+        {node.children.length > 0 && (
+          <div
+            style={{
+              marginLeft: "1.5rem",
+              paddingLeft: "0.5rem",
+              borderLeft: "2px solid #eee",
+            }}
+          >
+            <ThreadView
+              nodes={node.children}
+              user={user}
+              domain={domain}
+              actors={actors}
+              isOwner={isOwner}
+            />
+          </div>
+        )}
+      </div>
+    ))}
+  </>
+);
+
 export const PostPage: FC<PostPageProps> = (props) => (
   <>
     <article class="card">
@@ -1327,61 +1477,292 @@ export const PostPage: FC<PostPageProps> = (props) => (
         </p>
       </div>
     </article>
-    <PostView post={props.post} user={props.user} domain={props.domain} />
+    {props.ancestors && props.ancestors.length > 0 && (
+      <section>
+        <ThreadView
+          nodes={props.ancestors}
+          user={props.user}
+          domain={props.domain}
+          actors={props.actors}
+          isOwner={props.isOwner}
+        />
+      </section>
+    )}
+    <PostView
+      post={props.post}
+      user={props.user}
+      domain={props.domain}
+      replyCount={props.replyCount}
+      editable={props.isOwner && !props.post.remote}
+      isOwner={props.isOwner}
+    />
+    {props.descendants && props.descendants.length > 0 && (
+      <section style={{ marginLeft: "1.5rem" }}>
+        <ThreadView
+          nodes={props.descendants}
+          user={props.user}
+          domain={props.domain}
+          actors={props.actors}
+          isOwner={props.isOwner}
+        />
+      </section>
+    )}
+    {props.isOwner && (
+      <form
+        method="post"
+        action={`/users/${props.username}/posts/${props.post._id}/backfill`}
+      >
+        <button type="submit" class="secondary outline">
+          Fetch missing replies from other servers
+        </button>
+      </form>
+    )}
   </>
 );
 
+export interface PostHistoryProps {
+  post: IPost;
+  revisions: IPostRevision[]; // earlier versions, newest first
+}
+
+// Every version of an edited post, the current one first
+export const PostHistory: FC<PostHistoryProps> = ({ post, revisions }) => {
+  const versions = [
+    {
+      key: "current",
+      content: post.content,
+      summary: post.summary,
+      publishedAt: post.updatedAt ?? post.createdAt,
+    },
+    ...revisions.map((revision) => ({
+      key: String(revision._id),
+      content: revision.content,
+      summary: revision.summary,
+      publishedAt: revision.createdAt,
+    })),
+  ];
+  return (
+    <>
+      <h2>Edit history</h2>
+      <p>
+        <a href={`/users/${post.author}/posts/${post._id}`}>Back to the post</a>
+      </p>
+      {versions.map((version, i) => (
+        <article class="card" key={version.key}>
+          <small style={{ color: "#888" }}>
+            {i === 0
+              ? "Current version"
+              : i === versions.length - 1
+                ? "Original"
+                : "Edited"}
+            , published{" "}
+            <time dateTime={new Date(version.publishedAt).toISOString()}>
+              {new Date(version.publishedAt).toLocaleString()}
+            </time>
+          </small>
+          {version.summary && <p>{version.summary}</p>}
+          <div
+            // biome-ignore lint/security/noDangerouslySetInnerHtml: Post content is sanitized
+            dangerouslySetInnerHTML={{
+              __html: linkifyAndEmbed(version.content),
+            }}
+          />
+        </article>
+      ))}
+    </>
+  );
+};
+
+export interface ActorLabelProps {
+  name: string;
+  handle: string;
+  avatarUrl?: string;
+  href?: string;
+}
+
+export const ActorLabel: FC<ActorLabelProps> = ({
+  name,
+  handle,
+  avatarUrl,
+  href,
+}) => (
+  <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+    {avatarUrl && (
+      <img
+        src={avatarUrl}
+        alt=""
+        style={{
+          width: "40px",
+          height: "40px",
+          borderRadius: "50%",
+          objectFit: "cover",
+        }}
+      />
+    )}
+    <div>
+      <span style={{ fontWeight: 600 }}>
+        {href ? (
+          <a href={href} class="secondary">
+            {name}
+          </a>
+        ) : (
+          name
+        )}
+      </span>
+      <br />
+      <span style={{ color: "#888", fontSize: "0.95em" }}>{handle}</span>
+    </div>
+  </div>
+);
+
+// Label for a remote actor URL, using its cached profile when we have one
+const RemoteActorLabel: FC<{ uri: string; actor?: IRemoteActor }> = ({
+  uri,
+  actor,
+}) => (
+  <ActorLabel
+    name={actor?.name || actor?.preferredUsername || uri}
+    handle={actor?.handle || uri}
+    avatarUrl={actor?.avatarUrl}
+    href={isWebUrl(actor?.url) ? actor.url : isWebUrl(uri) ? uri : undefined}
+  />
+);
+
+const linkButtonStyle = {
+  fontSize: "0.9em",
+  background: "none",
+  border: "none",
+  padding: "0",
+  cursor: "pointer",
+  textDecoration: "underline",
+};
+
+// Link to the next page of a cursor-paginated list, if there is one
+export const LoadMore: FC<{ cursor?: string | null }> = ({ cursor }) =>
+  cursor ? (
+    <p style={{ textAlign: "center" }}>
+      <a href={`?cursor=${encodeURIComponent(cursor)}`}>Load more</a>
+    </p>
+  ) : null;
+
 export interface FollowerListProps {
   followers: IFollow[];
+  actors: Map<string, IRemoteActor>;
+  total: number;
+  nextCursor?: string | null;
+  // Whether the owner hides the list from visitors
+  hidden?: boolean;
+  // Number of follow requests awaiting approval, shown to the owner only
+  pendingRequests?: number;
+  // Whether the viewer may remove followers
+  isOwner?: boolean;
 }
 
-export const FollowerList: FC<FollowerListProps> = ({ followers }) => (
+export const FollowerList: FC<FollowerListProps> = ({
+  followers,
+  actors,
+  total,
+  nextCursor,
+  hidden,
+  pendingRequests,
+  isOwner,
+}) => (
   <>
     <h2>Followers</h2>
+    <p>
+      {total} follower{total === 1 ? "" : "s"}
+      {hidden && ". This account hides its followers."}
+    </p>
+    {pendingRequests ? (
+      <p>
+        <a href="/follow-requests">
+          {pendingRequests} pending follow request
+          {pendingRequests === 1 ? "" : "s"}
+        </a>
+      </p>
+    ) : null}
     <ul>
       {followers.map((follower) => (
-        <li key={follower.follower}>
-          <a href={follower.follower} class="secondary">
-            {follower.follower}
-          </a>
+        <li
+          key={follower.follower}
+          style={{
+            listStyle: "none",
+            display: "flex",
+            alignItems: "center",
+            gap: "1rem",
+          }}
+        >
+          <RemoteActorLabel
+            uri={follower.follower}
+            actor={actors.get(follower.follower)}
+          />
+          {isOwner && (
+            <form
+              method="post"
+              action="/followers/remove"
+              style={{ display: "inline" }}
+            >
+              <input type="hidden" name="follower" value={follower.follower} />
+              <button type="submit" class="secondary" style={linkButtonStyle}>
+                Remove
+              </button>
+            </form>
+          )}
         </li>
       ))}
     </ul>
+    <LoadMore cursor={nextCursor} />
   </>
 );
 
-export interface FollowingListProps {
-  following: IFollow[];
+export interface FollowRequestListProps {
+  requests: IFollowRequest[];
+  actors: Map<string, IRemoteActor>;
 }
 
-export const FollowingList: FC<FollowingListProps> = ({ following }) => (
+export const FollowRequestList: FC<FollowRequestListProps> = ({
+  requests,
+  actors,
+}) => (
   <>
-    <h2>Following</h2>
+    <h2>Follow requests</h2>
+    {requests.length === 0 && <p>No pending follow requests.</p>}
     <ul>
-      {following.map((follow) => (
-        <li key={follow.following}>
-          <a href={follow.following} class="secondary">
-            {follow.following}
-          </a>
+      {requests.map((request) => (
+        <li
+          key={request.follower}
+          style={{
+            listStyle: "none",
+            display: "flex",
+            alignItems: "center",
+            gap: "1rem",
+          }}
+        >
+          <RemoteActorLabel
+            uri={request.follower}
+            actor={actors.get(request.follower)}
+          />
+          <small style={{ color: "#888" }}>
+            {new Date(request.createdAt).toLocaleString()}
+          </small>
           <form
             method="post"
-            action="/unfollow"
-            style={{ display: "inline", marginLeft: "1rem" }}
+            action="/follow-requests/approve"
+            style={{ display: "inline" }}
           >
-            <input type="hidden" name="following" value={follow.following} />
-            <button
-              type="submit"
-              class="secondary"
-              style={{
-                fontSize: "0.9em",
-                background: "none",
-                border: "none",
-                padding: "0",
-                cursor: "pointer",
-                textDecoration: "underline",
-              }}
-            >
-              Unfollow
+            <input type="hidden" name="follower" value={request.follower} />
+            <button type="submit" class="secondary" style={linkButtonStyle}>
+              Approve
+            </button>
+          </form>
+          <form
+            method="post"
+            action="/follow-requests/deny"
+            style={{ display: "inline" }}
+          >
+            <input type="hidden" name="follower" value={request.follower} />
+            <button type="submit" class="secondary" style={linkButtonStyle}>
+              Deny
             </button>
           </form>
         </li>
@@ -1389,3 +1770,486 @@ export const FollowingList: FC<FollowingListProps> = ({ following }) => (
     </ul>
   </>
 );
+
+export interface BlockListProps {
+  blocks: IBlock[];
+  actors: Map<string, IRemoteActor>;
+  error?: string;
+}
+
+export const BlockList: FC<BlockListProps> = ({ blocks, actors, error }) => (
+  <>
+    <h2>Blocks</h2>
+    {error && (
+      <p role="alert" style={{ color: "#c00" }}>
+        {error}
+      </p>
+    )}
+    <form method="post" action="/blocks">
+      <fieldset style={{ display: "flex", gap: "0.5rem" }}>
+        <input
+          type="text"
+          name="target"
+          required
+          placeholder="@user@example.com, https://example.com/@user or example.com"
+        />
+        <select
+          name="severity"
+          aria-label="Domain block severity"
+          style={{ width: "auto" }}
+        >
+          <option value="suspend">Suspend</option>
+          <option value="silence">Silence</option>
+        </select>
+        <input type="submit" value="Block" />
+      </fieldset>
+      <small>
+        Severity applies to domains. Suspended domains are cut off entirely;
+        silenced domains still federate but are hidden from the timeline.
+      </small>
+    </form>
+    {blocks.length === 0 && <p>Nobody is blocked.</p>}
+    <ul>
+      {blocks.map((block) => (
+        <li
+          key={String(block._id)}
+          style={{
+            listStyle: "none",
+            display: "flex",
+            alignItems: "center",
+            gap: "1rem",
+          }}
+        >
+          {block.type === "actor" ? (
+            <RemoteActorLabel
+              uri={block.target}
+              actor={actors.get(block.target)}
+            />
+          ) : (
+            <span>
+              <strong>{block.target}</strong>{" "}
+              <small
+                style={{ color: "#888" }}
+                title={block.publicComment || undefined}
+              >
+                (whole domain, {block.severity})
+              </small>
+            </span>
+          )}
+          <form
+            method="post"
+            action="/blocks/remove"
+            style={{ display: "inline" }}
+          >
+            <input type="hidden" name="id" value={String(block._id)} />
+            <button type="submit" class="secondary" style={linkButtonStyle}>
+              Unblock
+            </button>
+          </form>
+        </li>
+      ))}
+    </ul>
+  </>
+);
+
+// Blocklist import form and export link, shown below the block list
+export const BlocklistTransfer: FC = () => (
+  <>
+    <h3>Domain blocklists</h3>
+    <p>
+      <a href="/blocks/export.csv" download="blocklist.csv">
+        Export our domain blocks
+      </a>{" "}
+      in Mastodon's CSV format.
+    </p>
+    <form
+      method="post"
+      action="/blocks/import/preview"
+      encType="multipart/form-data"
+    >
+      <fieldset style={{ display: "flex", gap: "0.5rem" }}>
+        <input
+          type="file"
+          name="file"
+          accept=".csv,text/csv"
+          required
+          aria-label="Blocklist CSV file"
+        />
+        <input type="submit" value="Preview import" />
+      </fieldset>
+    </form>
+  </>
+);
+
+const blocklistChangeLabels = {
+  add: "new",
+  update: "changed",
+  unchanged: "already blocked",
+};
+
+export interface BlocklistPreviewProps {
+  preview: BlocklistPreview;
+  // The uploaded file, resubmitted when the import is confirmed
+  csv: string;
+}
+
+export const BlocklistPreviewPage: FC<BlocklistPreviewProps> = ({
+  preview,
+  csv,
+}) => {
+  const changes = preview.entries.filter((e) => e.change !== "unchanged");
+  return (
+    <>
+      <h2>Import domain blocklist</h2>
+      <p>
+        {changes.length} of {preview.entries.length} domains will be added or
+        changed.
+        {preview.invalid.length > 0 &&
+          ` ${preview.invalid.length} lines will be skipped.`}
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Domain</th>
+            <th>Severity</th>
+            <th>Reject media</th>
+            <th>Comment</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {preview.entries.map((entry) => (
+            <tr key={entry.domain}>
+              <td>{entry.domain}</td>
+              <td>{entry.severity}</td>
+              <td>{entry.rejectMedia ? "yes" : "no"}</td>
+              <td>{entry.publicComment}</td>
+              <td>{blocklistChangeLabels[entry.change]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {preview.invalid.length > 0 && (
+        <>
+          <h3>Skipped lines</h3>
+          <ul>
+            {preview.invalid.map((invalid) => (
+              <li key={invalid.line}>
+                Line {invalid.line}: <code>{invalid.text}</code> (
+                {invalid.reason})
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <form method="post" action="/blocks/import">
+        <input type="hidden" name="csv" value={csv} />
+        <button type="submit" disabled={changes.length === 0}>
+          Import {changes.length} domain blocks
+        </button>{" "}
+        <a href="/blocks">Cancel</a>
+      </form>
+    </>
+  );
+};
+
+const muteTypeLabels = {
+  actor: "Account",
+  domain: "Domain",
+  keyword: "Keyword",
+};
+
+// Choices for how long a new mute lasts, in seconds
+const muteDurations = [
+  ["", "Forever"],
+  ["1800", "30 minutes"],
+  ["3600", "1 hour"],
+  ["21600", "6 hours"],
+  ["86400", "1 day"],
+  ["604800", "1 week"],
+];
+
+export interface MuteListProps {
+  mutes: IMute[];
+  actors: Map<string, IRemoteActor>;
+  error?: string;
+}
+
+export const MuteList: FC<MuteListProps> = ({ mutes, actors, error }) => (
+  <>
+    <h2>Mutes</h2>
+    <p>
+      Muted posts are hidden from the timeline or collapsed behind a warning.
+      Muted accounts are not notified.
+    </p>
+    {error && (
+      <p role="alert" style={{ color: "#c00" }}>
+        {error}
+      </p>
+    )}
+    <form method="post" action="/mutes">
+      <div class="grid">
+        <label>
+          Mute
+          <select name="type">
+            <option value="keyword">Keyword</option>
+            <option value="actor">Account</option>
+            <option value="domain">Domain</option>
+          </select>
+        </label>
+        <label>
+          Matching
+          <input
+            type="text"
+            name="target"
+            required
+            placeholder="word, @user@example.com or example.com"
+          />
+        </label>
+      </div>
+      <div class="grid">
+        <label>
+          Action
+          <select name="action">
+            <option value="hide">Hide</option>
+            <option value="warn">Collapse with a warning</option>
+          </select>
+        </label>
+        <label>
+          Expires after
+          <select name="expiresIn">
+            {muteDurations.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label>
+        <input type="checkbox" name="regex" value="true" />
+        Keyword is a regular expression
+      </label>
+      <input type="submit" value="Add mute" />
+    </form>
+    {mutes.length === 0 && <p>Nothing is muted.</p>}
+    <ul>
+      {mutes.map((mute) => (
+        <li
+          key={String(mute._id)}
+          style={{
+            listStyle: "none",
+            display: "flex",
+            alignItems: "center",
+            gap: "1rem",
+          }}
+        >
+          {mute.type === "actor" ? (
+            <RemoteActorLabel
+              uri={mute.target}
+              actor={actors.get(mute.target)}
+            />
+          ) : (
+            <span>
+              {muteTypeLabels[mute.type]}:{" "}
+              {mute.regex ? <code>/{mute.target}/</code> : mute.target}
+            </span>
+          )}
+          <small style={{ color: "#888" }}>
+            {mute.action === "hide" ? "hidden" : "collapsed"}
+            {mute.expiresAt &&
+              `, until ${new Date(mute.expiresAt).toLocaleString()}`}
+          </small>
+          <form
+            method="post"
+            action="/mutes/remove"
+            style={{ display: "inline" }}
+          >
+            <input type="hidden" name="id" value={String(mute._id)} />
+            <button type="submit" class="secondary" style={linkButtonStyle}>
+              Unmute
+            </button>
+          </form>
+        </li>
+      ))}
+    </ul>
+  </>
+);
+
+export interface ReportListProps {
+  open: IReport[];
+  closed: IReport[];
+  actors: Map<string, IRemoteActor>;
+}
+
+const ReportItem: FC<{ report: IReport; actor?: IRemoteActor }> = ({
+  report,
+  actor,
+}) => (
+  <article class="card">
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+      }}
+    >
+      <RemoteActorLabel uri={report.reporter} actor={actor} />
+      <small style={{ color: "#888" }}>
+        {new Date(report.createdAt).toLocaleString()}
+        {report.status !== "open" && ` · ${report.status}`}
+      </small>
+    </div>
+    {report.comment && <blockquote>{report.comment}</blockquote>}
+    <ul>
+      {report.targets.map((target) => (
+        <li key={target}>
+          {isWebUrl(target) ? (
+            <a href={target} target="_blank" rel="noopener noreferrer">
+              {target}
+            </a>
+          ) : (
+            <code>{target}</code>
+          )}
+        </li>
+      ))}
+    </ul>
+    {report.status === "open" && (
+      <form method="post" action="/moderation/close">
+        <input type="hidden" name="id" value={String(report._id)} />
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button type="submit" name="status" value="resolved">
+            Resolve
+          </button>
+          <button
+            type="submit"
+            name="status"
+            value="dismissed"
+            class="secondary"
+          >
+            Dismiss
+          </button>
+        </div>
+      </form>
+    )}
+  </article>
+);
+
+export const ReportList: FC<ReportListProps> = ({ open, closed, actors }) => (
+  <>
+    <h2>Reports</h2>
+    {open.length === 0 && <p>No open reports.</p>}
+    {open.map((report) => (
+      <ReportItem
+        key={String(report._id)}
+        report={report}
+        actor={actors.get(report.reporter)}
+      />
+    ))}
+    {closed.length > 0 && (
+      <details>
+        <summary>Closed reports</summary>
+        {closed.map((report) => (
+          <ReportItem
+            key={String(report._id)}
+            report={report}
+            actor={actors.get(report.reporter)}
+          />
+        ))}
+      </details>
+    )}
+  </>
+);
+
+export interface FollowingListProps {
+  following: IFollowing[];
+  actors: Map<string, IRemoteActor>;
+  total: number;
+  nextCursor?: string | null;
+  // Whether the owner hides the list from visitors
+  hidden?: boolean;
+}
+
+// Follow requests unanswered for this long can be resent
+const PENDING_FOLLOW_TIMEOUT = 3 * 24 * 60 * 60 * 1000;
+
+export const FollowingList: FC<FollowingListProps> = ({
+  following,
+  actors,
+  total,
+  nextCursor,
+  hidden,
+}) => (
+  <>
+    <h2>Following</h2>
+    <p>
+      Following {total} account{total === 1 ? "" : "s"}
+      {hidden && ". This account hides who it follows."}
+    </p>
+    <ul>
+      {following.map((follow) => {
+        const requestedAt = new Date(follow.requestedAt ?? follow.createdAt);
+        const stale =
+          !follow.accepted &&
+          Date.now() - requestedAt.getTime() > PENDING_FOLLOW_TIMEOUT;
+        return (
+          <li
+            key={follow.following}
+            style={{
+              listStyle: "none",
+              display: "flex",
+              alignItems: "center",
+              gap: "1rem",
+            }}
+          >
+            <RemoteActorLabel
+              uri={follow.following}
+              actor={actors.get(follow.following)}
+            />
+            <small
+              style={{ color: "#888" }}
+              title={
+                follow.accepted && follow.acceptedAt
+                  ? `Accepted ${new Date(follow.acceptedAt).toLocaleString()}`
+                  : `Requested ${requestedAt.toLocaleString()}`
+              }
+            >
+              {follow.accepted
+                ? "accepted"
+                : stale
+                  ? "pending (no reply yet)"
+                  : "pending"}
+            </small>
+            {stale && (
+              <form
+                method="post"
+                action="/follow/resend"
+                style={{ display: "inline" }}
+              >
+                <input
+                  type="hidden"
+                  name="following"
+                  value={follow.following}
+                />
+                <button type="submit" class="secondary" style={linkButtonStyle}>
+                  Resend
+                </button>
+              </form>
+            )}
+            <form
+              method="post"
+              action="/unfollow"
+              style={{ display: "inline" }}
+            >
+              <input type="hidden" name="following" value={follow.following} />
+              <button type="submit" class="secondary" style={linkButtonStyle}>
+                {follow.accepted ? "Unfollow" : "Cancel request"}
+              </button>
+            </form>
+          </li>
+        );
+      })}
+    </ul>
+    <LoadMore cursor={nextCursor} />
+  </>
+);